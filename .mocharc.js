@@ -2,7 +2,7 @@ const dotenv = require('dotenv');
 dotenv.config();
 
 module.exports = {
-  require: ['ts-node/register', 'mochawesome/register'],
+  require: ['ts-node/register', 'mochawesome/register', 'src/hooks/rootHooks.ts'],
   extensions: ['ts'],
   spec: ['src/tests/**/*.spec.ts'],
   timeout: 180_000,
@@ -1,21 +1,88 @@
-import * as dotenv from 'dotenv';
+import { ConfigReader } from './utilities/config/ConfigReader';
+import { type IConfigLayers, loadConfigLayers } from './utilities/config/configLayers';
 
-dotenv.config();
+export const ConfigLayers: IConfigLayers = loadConfigLayers();
+
+const env: ConfigReader = new ConfigReader(ConfigLayers.values);
 
 export const BaseConfig = {
-  accessKeyId: process.env.ACCESS_KEY_ID,
-  secretAccessKey: process.env.SECRET_ACCESS_KEY,
-  region: process.env.REGION,
-  accountId: process.env.ACCOUNT_ID,
+  // Environment profile: config/{ENV}.env
+  profile: env.oneOf('ENV', ConfigLayers.profiles),
+  // Target: 'aws' (default) or 'local' to run against an AWS emulator
+  mode: env.oneOf('MODE', ['aws', 'local']) ?? 'aws',
+  accessKeyId: env.string('ACCESS_KEY_ID', { secret: true }),
+  secretAccessKey: env.string('SECRET_ACCESS_KEY', { secret: true }),
+  // Only needed for temporary credentials
+  sessionToken: env.string('SESSION_TOKEN', { secret: true }),
+  region: env.string('REGION', { areas: ['core'], optionalInLocalMode: true }),
+  accountId: env.string('ACCOUNT_ID', {
+    areas: ['iam'],
+    validate: (value) => (/^\d{12}$/.test(value) ? undefined : 'must be a 12-digit AWS account ID'),
+  }),
+  // Stack profile: cloudxinfo, cloudximage or cloudxserverless
+  stack: env.string('STACK'),
+  // AWS SDK clients
+  awsRetryMode: env.oneOf('AWS_RETRY_MODE', ['standard', 'adaptive']),
+  awsMaxAttempts: env.integer('AWS_MAX_ATTEMPTS', { min: 1 }),
+  awsEndpoint: env.url('AWS_ENDPOINT_URL'),
+  awsServiceEndpoints: {
+    cloudFormation: env.url('AWS_ENDPOINT_URL_CLOUDFORMATION'),
+    cloudTrail: env.url('AWS_ENDPOINT_URL_CLOUDTRAIL'),
+    cloudWatch: env.url('AWS_ENDPOINT_URL_CLOUDWATCH'),
+    cloudWatchLogs: env.url('AWS_ENDPOINT_URL_CLOUDWATCH_LOGS'),
+    dynamoDB: env.url('AWS_ENDPOINT_URL_DYNAMODB'),
+    ec2: env.url('AWS_ENDPOINT_URL_EC2'),
+    iam: env.url('AWS_ENDPOINT_URL_IAM'),
+    lambda: env.url('AWS_ENDPOINT_URL_LAMBDA'),
+    rds: env.url('AWS_ENDPOINT_URL_RDS'),
+    s3: env.url('AWS_ENDPOINT_URL_S3'),
+    sns: env.url('AWS_ENDPOINT_URL_SNS'),
+    sqs: env.url('AWS_ENDPOINT_URL_SQS'),
+  },
+  awsS3ForcePathStyle: env.boolean('AWS_S3_FORCE_PATH_STYLE'),
+  // Application and Mailtrap API clients: timeout per attempt in ms and attempts per request
+  apiTimeout: env.integer('API_TIMEOUT', { min: 1 }),
+  apiMaxAttempts: env.integer('API_MAX_ATTEMPTS', { min: 1 }),
+  // Application under test, defaults to http://{public EC2 IP}
+  appBaseUrl: env.url('APP_BASE_URL'),
   // MySQL RDS
-  dbUsername: process.env.DB_USERNAME,
-  dbPassword: process.env.DB_PASSWORD,
-  dbName: process.env.DB_NAME,
-  dbPort: process.env.DB_PORT,
+  dbUsername: env.string('DB_USERNAME', { areas: ['rds'] }),
+  dbPassword: env.string('DB_PASSWORD', { areas: ['rds'], secret: true }),
+  dbName: env.string('DB_NAME', { areas: ['rds'] }),
+  dbPort: env.port('DB_PORT', { areas: ['rds'] }),
+  // Inbox that receives the SNS emails: 'mailtrap' (default) or 'smtp' for the in-process SMTP server
+  emailInbox: env.oneOf('EMAIL_INBOX', ['mailtrap', 'smtp']) ?? 'mailtrap',
+  smtpInboxHost: env.string('SMTP_INBOX_HOST') ?? '127.0.0.1',
+  smtpInboxPort: env.port('SMTP_INBOX_PORT') ?? 2525,
   // Mailtrap
-  mailtrapUrl: process.env.MAILTRAP_URL,
-  mailtrapToken: process.env.MAILTRAP_TOKEN,
-  mailtrapAccountId: process.env.MAILTRAP_ACCOUNT_ID,
-  mailtrapInboxId: process.env.MAILTRAP_INBOX_ID,
-  mailtrapEmail: process.env.MAILTRAP_EMAIL,
+  mailtrapUrl: env.url('MAILTRAP_URL', { areas: ['mailtrap'], optionalInLocalMode: true }),
+  mailtrapToken: env.string('MAILTRAP_TOKEN', { areas: ['mailtrap'], secret: true }),
+  mailtrapAccountId: env.string('MAILTRAP_ACCOUNT_ID', { areas: ['mailtrap'], secret: true }),
+  mailtrapInboxId: env.string('MAILTRAP_INBOX_ID', { areas: ['mailtrap'], secret: true }),
+  // Inbox address, e.g. inbox+%s@example.com; %s is replaced with a random ID
+  mailtrapEmail: env.string('MAILTRAP_EMAIL', {
+    areas: ['mailtrap'],
+    validate: (value) => (/^[^@\s]+@[^@\s]+$/.test(value) ? undefined : 'must be an email address'),
+  }),
+  // Logging: debug, info (default), warn or error; text (default) or json lines
+  logLevel: env.oneOf('LOG_LEVEL', ['debug', 'info', 'warn', 'error']) ?? 'info',
+  logFormat: env.oneOf('LOG_FORMAT', ['text', 'json']) ?? 'text',
+  // Cassettes: 'record' saves the HTTP and AWS traffic of every test, 'replay' serves it instead of the network
+  cassetteMode: env.oneOf('CASSETTE_MODE', ['off', 'record', 'replay']) ?? 'off',
+  cassetteDir: env.string('CASSETTE_DIR') ?? 'cassettes',
+  // Deployment drift: accept the current deployment as the new baseline instead of reporting the drift
+  updateBaseline: env.boolean('UPDATE_BASELINE') ?? false,
+  // Expected deployment values that differ between environments; the expectation files require the ones they use
+  expected: {
+    ec2InstanceType: env.string('EXPECTED_EC2_INSTANCE_TYPE'),
+    ec2VolumeSize: env.integer('EXPECTED_EC2_VOLUME_SIZE', { min: 1 }),
+    rdsInstanceClass: env.string('EXPECTED_RDS_INSTANCE_CLASS'),
+    rdsAllocatedStorage: env.integer('EXPECTED_RDS_ALLOCATED_STORAGE', { min: 1 }),
+    rdsEngineVersion: env.string('EXPECTED_RDS_ENGINE_VERSION'),
+    lambdaMemorySize: env.integer('EXPECTED_LAMBDA_MEMORY_SIZE', { areas: ['serverless'], min: 1 }),
+  },
 };
+
+export const BaseConfigSettings = env.settings;
+
+export const BaseConfigSecrets = env.secrets;
@@ -0,0 +1,54 @@
+import type { Context, RootHookObject, Suite } from 'mocha';
+import axios from 'axios';
+import addContext from 'mochawesome/addContext';
+import { log } from '../utilities/common';
+import { cleanupRegistry } from '../utilities/cleanup/CleanupRegistry';
+import { CleanupError, type ICleanupFailure } from '../utilities/errors/CleanupError';
+import { callTranscript, type ICallRecord } from '../utilities/transcript/CallTranscript';
+import { cassettePlayer } from '../utilities/cassettes/CassettePlayer';
+import { useCassetteAdapter } from '../utilities/cassettes/cassetteRecorders';
+import { formatConfigSummary, getConfigAreas, validateBaseConfig } from '../utilities/config/validateBaseConfig';
+
+function getSpecFiles(suite: Suite): string[] {
+  return [suite.file, ...suite.suites.flatMap(getSpecFiles)].filter(Boolean);
+}
+
+// Specs also call axios directly, e.g. to download files from presigned URLs
+useCassetteAdapter(axios);
+
+export const mochaHooks: RootHookObject = {
+  beforeAll(this: Context) {
+    log(formatConfigSummary());
+    validateBaseConfig(getConfigAreas(getSpecFiles(this.test.parent)));
+  },
+
+  beforeEach(this: Context) {
+    callTranscript.reset();
+    if (cassettePlayer.enabled) cassettePlayer.insertTest(this.currentTest.file, this.currentTest.titlePath());
+  },
+
+  // Runs after the suite's own afterEach hooks, so the calls they make are included as well
+  afterEach(this: Context) {
+    cassettePlayer.ejectTest();
+
+    const { dropped } = callTranscript;
+    const calls: ICallRecord[] = callTranscript.take();
+
+    if (!calls.length) return;
+
+    addContext(this, {
+      title: dropped
+        ? `HTTP and AWS calls (first ${calls.length}, ${dropped} more not recorded)`
+        : 'HTTP and AWS calls',
+      value: calls,
+    });
+  },
+
+  async afterAll() {
+    const failures: ICleanupFailure[] = await cleanupRegistry.runAll();
+
+    cassettePlayer.ejectHooks();
+
+    if (failures.length) throw new CleanupError(failures);
+  },
+};
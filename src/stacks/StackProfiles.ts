@@ -0,0 +1,139 @@
+import { BaseConfig } from '../BaseConfig';
+import { getCliOption } from '../utilities/common';
+import type {
+  IDeploymentLogicalIds,
+  IDeploymentOptions,
+  IDeploymentOutputKeys,
+  IDeploymentPrefixes,
+} from '../utilities/aws/DeploymentContext';
+
+export type StackName = 'cloudxinfo' | 'cloudximage' | 'cloudxserverless';
+
+export type MetadataBackend = 'mysql' | 'dynamodb';
+
+export type ImageIdType = 'number' | 'string';
+
+// 'present' only requires a non-empty value, the other kinds also check the JSON type
+export type ImageMetadataFieldKind = 'string' | 'number' | 'present';
+
+export interface IStackProfile extends IDeploymentOptions {
+  name: StackName;
+  stackName: string;
+  // Stack output keys, read before the logical IDs when the stack exports them
+  outputKeys?: IDeploymentOutputKeys;
+  // Logical IDs in the CloudFormation template, without the hash suffix CDK appends
+  logicalIds: IDeploymentLogicalIds;
+  // Physical name prefixes, used when the CloudFormation stack cannot resolve a resource
+  prefixes: IDeploymentPrefixes;
+  metadataBackend?: MetadataBackend;
+  imageIdType?: ImageIdType;
+  // Fields stored by the metadata backend and returned by GET /api/image/{id}
+  imageMetadataFields?: Record<string, ImageMetadataFieldKind>;
+}
+
+export const StackProfiles: Record<StackName, IStackProfile> = {
+  cloudxinfo: {
+    name: 'cloudxinfo',
+    stackName: 'cloudxinfo',
+    logicalIds: {
+      publicInstance: 'PublicInstance',
+      privateInstance: 'PrivateInstance',
+    },
+    prefixes: {
+      instance: 'cloudxinfo/',
+    },
+  },
+  cloudximage: {
+    name: 'cloudximage',
+    stackName: 'cloudximage',
+    outputKeys: {
+      appBaseUrl: 'AppUrl',
+      topic: 'TopicArn',
+      queue: 'QueueUrl',
+    },
+    logicalIds: {
+      publicInstance: 'AppInstance',
+      bucket: 'ImageStoreBucket',
+      rdsInstance: 'DatabaseMySQLInstance',
+      topic: 'TopicSNSTopic',
+      queue: 'QueueSQSQueue',
+    },
+    prefixes: {
+      instance: 'cloudximage/',
+      bucket: 'cloudximage-imagestorebucket',
+      rdsInstance: 'cloudximage-databasemysqlinstanced',
+      topic: 'cloudximage-TopicSNSTopic',
+      queue: 'cloudximage-QueueSQSQueue',
+    },
+    metadataBackend: 'mysql',
+    imageIdType: 'number',
+    imageMetadataFields: {
+      id: 'number',
+      object_key: 'present',
+      object_type: 'present',
+      last_modified: 'present',
+      object_size: 'present',
+    },
+  },
+  cloudxserverless: {
+    name: 'cloudxserverless',
+    stackName: 'cloudxserverless',
+    outputKeys: {
+      appBaseUrl: 'AppUrl',
+      topic: 'TopicArn',
+      queue: 'QueueUrl',
+    },
+    logicalIds: {
+      publicInstance: 'AppInstance',
+      bucket: 'ImageStoreBucket',
+      table: 'DatabaseImagesTable',
+      topic: 'TopicSNSTopic',
+      queue: 'QueueSQSQueue',
+      lambdaFunction: 'EventHandlerLambda',
+    },
+    prefixes: {
+      instance: 'cloudxserverless/',
+      bucket: 'cloudxserverless-imagestorebucket',
+      table: 'cloudxserverless-DatabaseImagesTable',
+      topic: 'cloudxserverless-TopicSNSTopic',
+      queue: 'cloudxserverless-QueueSQSQueue',
+      lambdaFunction: 'cloudxserverless-EventHandlerLambda',
+    },
+    metadataBackend: 'dynamodb',
+    imageIdType: 'string',
+    imageMetadataFields: {
+      id: 'string',
+      object_key: 'string',
+      object_size: 'number',
+      created_at: 'number',
+      object_type: 'string',
+      last_modified: 'number',
+    },
+  },
+};
+
+// Stack of the IAM policies, roles, groups and users; no spec resolves resources from it, so it has no profile
+export const IamStackName = 'cloudxiam';
+
+export function getSelectedStackName(): StackName | undefined {
+  const name: string = getCliOption('stack') ?? BaseConfig.stack;
+
+  if (!name) return undefined;
+
+  if (!(name in StackProfiles)) {
+    throw new Error(`Unknown stack "${name}". Available stacks: ${Object.keys(StackProfiles).join(', ')}`);
+  }
+
+  return name as StackName;
+}
+
+/**
+ * Returns the profile selected by `--stack` or `STACK`, or every profile when nothing is selected.
+ * Profiles that do not satisfy the filter (e.g. a stack without an S3 bucket) are skipped.
+ */
+export function getSelectedStackProfiles(filter: (profile: IStackProfile) => boolean = () => true): IStackProfile[] {
+  const selected: StackName = getSelectedStackName();
+  const profiles: IStackProfile[] = selected ? [StackProfiles[selected]] : Object.values(StackProfiles);
+
+  return profiles.filter(filter);
+}
@@ -0,0 +1,57 @@
+import { relative } from 'path';
+import addContext from 'mochawesome/addContext';
+import { log } from '../../utilities/common';
+import { BaseConfig } from '../../BaseConfig';
+import { getSelectedStackProfiles } from '../../stacks/StackProfiles';
+import {
+  type DeploymentSnapshot,
+  DeploymentSnapshotCapture,
+  getBaselinePath,
+  loadBaseline,
+  saveBaseline,
+  SnapshotSections,
+} from '../../utilities/snapshots/DeploymentSnapshot';
+import { diffSnapshotValues, type ISnapshotChange } from '../../utilities/snapshots/snapshotDiff';
+import { DeploymentDriftError } from '../../utilities/errors/DeploymentDriftError';
+
+// An environment variable, since mocha would take the next command line argument as the value of a flag
+const { updateBaseline } = BaseConfig;
+
+getSelectedStackProfiles().forEach((profile) => {
+  describe(`Deployment drift of ${profile.name}`, () => {
+    const baselinePath: string = relative(process.cwd(), getBaselinePath(profile.name));
+
+    let snapshot: DeploymentSnapshot = null;
+    let baseline: DeploymentSnapshot = null;
+
+    before(async function () {
+      baseline = loadBaseline(baselinePath);
+
+      // Drift is only reported against an approved baseline
+      if (!baseline && !updateBaseline) {
+        log(`There is no baseline ${baselinePath}, skipping. Run with UPDATE_BASELINE=true to create it.`);
+        this.skip();
+      }
+
+      snapshot = await new DeploymentSnapshotCapture(profile).capture();
+
+      if (updateBaseline) {
+        saveBaseline(baselinePath, snapshot);
+        log(`Saved the ${profile.name} snapshot as the new baseline ${baselinePath}`);
+        baseline = snapshot;
+      }
+    });
+
+    SnapshotSections.forEach((section) => {
+      it(`${section} should match the baseline`, function () {
+        const changes: ISnapshotChange[] = diffSnapshotValues(baseline[section] ?? {}, snapshot[section], section);
+
+        if (!changes.length) return;
+
+        addContext(this, { title: `Drift in ${section}`, value: changes });
+
+        throw new DeploymentDriftError(baselinePath, changes);
+      });
+    });
+  });
+});
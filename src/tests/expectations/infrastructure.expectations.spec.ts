@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import _ from 'lodash';
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { type DeploymentContext, getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles, type StackName } from '../../stacks/StackProfiles';
+import {
+  getUnsetSettings,
+  loadExpectationFiles,
+  selectExpectationFiles,
+} from '../../utilities/expectations/ExpectationFile';
+import { fetchResource } from '../../utilities/expectations/resourceFetchers';
+import {
+  compareField,
+  describeExpectation,
+  formatFieldPath,
+  interpolate,
+  toFieldChecks,
+} from '../../utilities/expectations/fieldChecks';
+import { ConfigValidationError } from '../../utilities/errors/ConfigValidationError';
+
+selectExpectationFiles(loadExpectationFiles()).forEach((expectationFile) => {
+  const { file, stack, resources } = expectationFile;
+
+  describe(`Expected state of ${stack} (${file})`, () => {
+    // The EXPECTED_* settings are only required by the files that use them
+    before(() => {
+      const problems: string[] = getUnsetSettings(expectationFile);
+
+      if (problems.length) throw new ConfigValidationError(problems);
+    });
+
+    const deployment: DeploymentContext = getDeploymentContext(
+      StackProfiles[stack as StackName] ?? { stackName: stack },
+    );
+
+    resources.forEach(({ type, id, title, expect: expected }) => {
+      describe(title ?? [type, id].filter(Boolean).join(' '), () => {
+        let actual: Record<string, unknown> = null;
+
+        before(async () => {
+          actual = await fetchResource(type, id, { deployment, clients: awsClients });
+        });
+
+        toFieldChecks(expected).forEach(({ path, expected: field }) => {
+          it(`${formatFieldPath(path)} ${describeExpectation(field)}`, () => {
+            const mismatch: string = compareField(_.get(actual, path), interpolate(field));
+
+            if (mismatch) expect.fail(`${formatFieldPath(path)}: ${mismatch}`);
+          });
+        });
+      });
+    });
+  });
+});
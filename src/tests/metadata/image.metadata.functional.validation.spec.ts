@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { type AxiosResponse } from 'axios';
+import _ from 'lodash';
+import { join } from 'path';
+import { log } from '../../utilities/common';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { type IImageMetadataStore, openImageMetadataStore } from '../../utilities/metadata/imageMetadataStore';
+import { getSelectedStackProfiles } from '../../stacks/StackProfiles';
+import {
+  CloudXAppApiClient,
+  type ImageId,
+  type IImageMetadata,
+  type IUploadedImage,
+} from '../../utilities/api/CloudXAppApiClient';
+import { getCloudXAppSchemas } from '../../utilities/api/cloudXAppSchemas';
+
+getSelectedStackProfiles((profile) => Boolean(profile.metadataBackend)).forEach((profile) => {
+  describe(`Image metadata functional validation (${profile.name})`, () => {
+    const { imageIdType, imageMetadataFields } = profile;
+
+    let appApi: CloudXAppApiClient = null;
+    let store: IImageMetadataStore = null;
+    let randomImageId: ImageId = null;
+
+    before(async function () {
+      const { appBaseUrl } = await getDeploymentContext(profile).resolve('appBaseUrl');
+      // Responses are validated against the metadata types of the stack's backend
+      appApi = new CloudXAppApiClient(appBaseUrl, {}, { responseSchemas: getCloudXAppSchemas(profile) });
+
+      store = await openImageMetadataStore(profile);
+    });
+
+    after(async () => {
+      await store?.close();
+    });
+
+    it(`the uploaded image metadata should be stored in the ${profile.metadataBackend} database`, async () => {
+      const randomImage: string = _.sample(['beach.jpg', 'coffee.jpg', 'tree.jpeg']);
+      const filePath: string = join(process.cwd(), 'src', 'testData', randomImage);
+
+      const response: AxiosResponse<IUploadedImage> = await appApi.uploadImage(filePath);
+      expect(response.status, 'Post image response status is not correct').to.equal(200);
+      expect(response.data.id, 'Image ID is not correct').to.be.a(imageIdType);
+
+      const fieldNames: string[] = await store.getFieldNames();
+      log(`Field names in the "${store.location}" table: ${fieldNames}`);
+      expect(fieldNames, `Field names are not correct in the "${store.location}" table`).to.have.members(
+        Object.keys(imageMetadataFields),
+      );
+
+      const imageIds: ImageId[] = await store.getImageIds();
+      log(`IDs in the table: ${imageIds}`);
+      expect(imageIds, `There is no created image in the "${store.location}" table`).to.include(response.data.id);
+
+      randomImageId = _.sample(imageIds);
+    });
+
+    it('the image metadata should be returned by {base URL}/image/{image_id} GET request', async () => {
+      const response: AxiosResponse<IImageMetadata> = await appApi.getImage(randomImageId);
+      expect(response.status, 'Get image by ID response status is not correct').to.equal(200);
+      expect(response.data.id, 'Image ID is not correct').to.equal(randomImageId);
+    });
+
+    it('the image metadata for the deleted image should be deleted from the database', async () => {
+      const deleteImageResp: AxiosResponse = await appApi.deleteImage(randomImageId);
+      expect(deleteImageResp.status, 'Delete image by ID response status is not correct').to.equal(200);
+
+      const getImagesResp: AxiosResponse<IImageMetadata[]> = await appApi.listImages();
+      expect(getImagesResp.status, 'Get images response status is not correct').to.equal(200);
+
+      const imageIds: ImageId[] = await store.getImageIds();
+
+      expect(getImagesResp.data.length, 'The number of images in the API and DB is different').to.equal(
+        imageIds.length,
+      );
+      expect(imageIds, `The image ID still exists in the table "${store.location}" after being deleted`).not.to.include(
+        randomImageId,
+      );
+    });
+  });
+});
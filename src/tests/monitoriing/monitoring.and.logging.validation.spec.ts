@@ -8,94 +8,46 @@ import {
   CloudWatchLogsClient,
 } from '@aws-sdk/client-cloudwatch-logs';
 import {
-  DescribeInstancesCommand,
-  type DescribeInstancesCommandInput,
-  type DescribeInstancesCommandOutput,
-  EC2Client,
-} from '@aws-sdk/client-ec2';
-import {
-  ListTopicsCommand,
-  type ListTopicsCommandOutput,
   SNSClient,
   SubscribeCommand,
   type SubscribeCommandInput,
   type SubscribeCommandOutput,
 } from '@aws-sdk/client-sns';
 import { expect } from 'chai';
-import axios, { type AxiosResponse } from 'axios';
+import { type AxiosResponse } from 'axios';
 import _ from 'lodash';
-import fs from 'fs-extra';
 import { join } from 'path';
-import FormData from 'form-data';
 import { randomUUID } from 'node:crypto';
-import { BaseConfig } from '../../BaseConfig';
-import { wait } from '../../utilities/common';
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
+import { retry } from '../../utilities/retry';
+import { registerSubscriptionCleanup } from '../../utilities/cleanup/cleanupActions';
+import {
+  CloudXAppApiClient,
+  type ImageId,
+  type IUploadedImage,
+  type IImageMetadata,
+} from '../../utilities/api/CloudXAppApiClient';
+import { getCloudXAppSchemas } from '../../utilities/api/cloudXAppSchemas';
 
 describe('Monitoring and logging application validation', function () {
-  const { accessKeyId, secretAccessKey, region } = BaseConfig;
-
-  const cloudWatchLogsClient: CloudWatchLogsClient = new CloudWatchLogsClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const cloudWatchLogsClient: CloudWatchLogsClient = awsClients.cloudWatchLogs;
 
-  const ec2Client: EC2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const snsClient: SNSClient = awsClients.sns;
 
-  const snsClient: SNSClient = new SNSClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
-
-  let ec2IpAddress: string = null;
+  let appApi: CloudXAppApiClient = null;
   let topicSns: string = null;
 
   before(async () => {
-    const params: DescribeInstancesCommandInput = {
-      Filters: [
-        {
-          Name: 'instance-state-name',
-          Values: ['running'],
-        },
-      ],
-    };
-
-    const data: DescribeInstancesCommandOutput = await ec2Client.send(new DescribeInstancesCommand(params));
-
-    const deployedInstances: any[] = data.Reservations.reduce((acc, reservation) => {
-      return acc.concat(
-        reservation.Instances.map((instance) => ({
-          id: instance.InstanceId,
-          type: instance.PublicIpAddress ? 'public' : 'private',
-          os: instance,
-        })),
-      );
-    }, []);
-
-    const ec2Instance: any = deployedInstances.find((instance) => instance.type === 'public');
-
-    if (!ec2Instance) throw new Error(`No public EC2 instance found`);
-
-    ({ PublicIpAddress: ec2IpAddress } = ec2Instance.os);
-
-    const listTopicsResp: ListTopicsCommandOutput = await snsClient.send(new ListTopicsCommand({}));
-
-    ({ TopicArn: topicSns } = listTopicsResp.Topics.find((topic) => {
-      return topic.TopicArn.includes('cloudxserverless-TopicSNSTopic');
-    }));
-
-    if (!topicSns) throw new Error('There is no Topics ARN for the SNS');
+    const deployment = await getDeploymentContext(StackProfiles.cloudxserverless).resolve('appBaseUrl', 'topicArn');
+
+    appApi = new CloudXAppApiClient(
+      deployment.appBaseUrl,
+      {},
+      { responseSchemas: getCloudXAppSchemas(StackProfiles.cloudxserverless) },
+    );
+    topicSns = deployment.topicArn;
   });
 
   it('checks if logs include required image information for each notification', async function () {
@@ -106,37 +58,30 @@ describe('Monitoring and logging application validation', function () {
       Protocol: 'email',
       TopicArn: topicSns,
       Endpoint: endpoint,
+      // Pending subscriptions get a real ARN so that they can be removed after the run
+      ReturnSubscriptionArn: true,
     };
 
     const subscribeResp: SubscribeCommandOutput = await snsClient.send(new SubscribeCommand(params));
     expect(subscribeResp.SubscriptionArn, 'SubscriptionArn is not correct').to.be.a('string');
+    registerSubscriptionCleanup(subscribeResp.SubscriptionArn);
+
+    const startTime: number = Date.now();
 
     // Send API request to create an image
     const randomImage: string = _.sample(['beach.jpg', 'coffee.jpg', 'tree.jpeg']);
     const filePath: string = join(process.cwd(), 'src', 'testData', randomImage);
 
-    const formData: FormData = new FormData();
-    formData.append('upfile', fs.createReadStream(filePath));
-
-    const headers: { [key: string]: string } = {
-      'Content-Type': `multipart/form-data; boundary=${formData.getBoundary()}`,
-      ...formData.getHeaders(),
-    };
-
-    const response: AxiosResponse = await axios.post(`http://${ec2IpAddress}/api/image`, formData, { headers });
+    const response: AxiosResponse<IUploadedImage> = await appApi.uploadImage(filePath);
     expect(response.status, 'Post image response status is not correct').to.equal(200);
     expect(response.data.id, 'Image ID is not correct').to.be.a('string');
 
-    // Wait for event logs
-    await wait(30_000);
-
-    // Get the latest created Log Group
-    const logGroup: LogGroup = await getLatestLogGroup('/aws/lambda/cloudxserverless-EventHandlerLambda');
-
-    // Get all Log Events
-    const logEvents: FilteredLogEvent[] = await fetchLogEvents(logGroup.logGroupName);
-
-    const logEventsMessages: string[] = logEvents.map(({ message }) => message);
+    // Wait for the event logs
+    const logEventsMessages: string[] = await waitForLogMessages(
+      '/aws/lambda/cloudxserverless-EventHandlerLambda',
+      startTime,
+      ['object_key', 'object_type', 'last_modified', 'object_size', 'download_link'],
+    );
 
     expect(
       logEventsMessages.some((message) => message.includes('object_key')),
@@ -161,43 +106,33 @@ describe('Monitoring and logging application validation', function () {
   });
 
   it('checks if logs include HTTP API requests information', async function () {
+    const startTime: number = Date.now();
+
     // Send API request to create an image
     const randomImage: string = _.sample(['beach.jpg', 'coffee.jpg', 'tree.jpeg']);
     const filePath: string = join(process.cwd(), 'src', 'testData', randomImage);
 
-    const formData: FormData = new FormData();
-    formData.append('upfile', fs.createReadStream(filePath));
-
-    const headers: { [key: string]: string } = {
-      'Content-Type': `multipart/form-data; boundary=${formData.getBoundary()}`,
-      ...formData.getHeaders(),
-    };
-
-    const createResp: AxiosResponse = await axios.post(`http://${ec2IpAddress}/api/image`, formData, { headers });
+    const createResp: AxiosResponse<IUploadedImage> = await appApi.uploadImage(filePath);
     expect(createResp.status, 'Post image response status is not correct').to.equal(200);
     expect(createResp.data.id, 'Image ID is not correct').to.be.a('string');
 
     // Send API request to get all images
-    const getResp: AxiosResponse = await axios.get(`http://${ec2IpAddress}/api/image`);
+    const getResp: AxiosResponse<IImageMetadata[]> = await appApi.listImages();
     expect(getResp.status, 'Get images response status is not correct').to.equal(200);
 
-    const imageIds: string[] = getResp.data.map((image) => image.id);
-    const randomImageId: string = _.sample(imageIds);
+    const imageIds: ImageId[] = getResp.data.map((image) => image.id);
+    const randomImageId: ImageId = _.sample(imageIds);
 
     // Send API request to delete an image
-    const deleteResp: AxiosResponse = await axios.delete(`http://${ec2IpAddress}/api/image/${randomImageId}`);
+    const deleteResp: AxiosResponse = await appApi.deleteImage(randomImageId);
     expect(deleteResp.status, 'Delete image by ID response status is not correct').to.equal(200);
 
-    // Wait for event logs
-    await wait(30_000);
-
-    // Get the latest created Log Group
-    const logGroup: LogGroup = await getLatestLogGroup('/var/log/cloudxserverless-app');
-
-    // Get all Log Events
-    const logEvents: FilteredLogEvent[] = await fetchLogEvents(logGroup.logGroupName);
-
-    const logEventsMessages: string[] = logEvents.map(({ message }) => message);
+    // Wait for the request logs
+    const logEventsMessages: string[] = await waitForLogMessages('/var/log/cloudxserverless-app', startTime, [
+      'POST /api/image HTTP/1.1',
+      'GET /api/image HTTP/1.1',
+      'DELETE /api/image',
+    ]);
 
     expect(
       logEventsMessages.some((message) => message.includes('POST /api/image HTTP/1.1')),
@@ -233,19 +168,16 @@ describe('Monitoring and logging application validation', function () {
     return logGroup[0];
   }
 
-  async function fetchLogEvents(logGroupName: string): Promise<Array<FilteredLogEvent>> {
+  async function fetchLogEvents(logGroupName: string, startTime: number): Promise<Array<FilteredLogEvent>> {
     let logEvents: FilteredLogEvent[] = [];
     let nextToken: string;
 
-    // Get the date/time from 30 seconds ago and convert it to milliseconds; subtract from current time
-    const thirtySecondsAgo = Date.now() - 1000 * 30;
-
     do {
       const logEventsData = await cloudWatchLogsClient.send(
         new FilterLogEventsCommand({
           logGroupName,
           nextToken,
-          startTime: thirtySecondsAgo,
+          startTime,
         }),
       );
 
@@ -255,4 +187,29 @@ describe('Monitoring and logging application validation', function () {
 
     return logEvents;
   }
+
+  // Polls the latest log group until every marker appears in the events logged since startTime
+  async function waitForLogMessages(
+    logGroupNamePrefix: string,
+    startTime: number,
+    markers: string[],
+  ): Promise<string[]> {
+    return retry(
+      async () => {
+        const logGroup: LogGroup = await getLatestLogGroup(logGroupNamePrefix);
+
+        if (!logGroup) throw new Error(`There is no Log Group with prefix ${logGroupNamePrefix}`);
+
+        const logEvents: FilteredLogEvent[] = await fetchLogEvents(logGroup.logGroupName, startTime);
+
+        return logEvents.map(({ message }) => message);
+      },
+      {
+        description: `Log events in ${logGroupNamePrefix}`,
+        timeout: 120_000,
+        initialDelay: 5_000,
+        until: (messages) => markers.every((marker) => messages.some((message) => message.includes(marker))),
+      },
+    );
+  }
 });
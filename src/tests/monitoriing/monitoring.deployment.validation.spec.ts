@@ -9,12 +9,6 @@ import {
   type LogGroup,
   type LogStream,
 } from '@aws-sdk/client-cloudwatch-logs';
-import {
-  DescribeInstancesCommand,
-  type DescribeInstancesCommandInput,
-  type DescribeInstancesCommandOutput,
-  EC2Client,
-} from '@aws-sdk/client-ec2';
 import {
   CloudTrailClient,
   DescribeTrailsCommand,
@@ -22,78 +16,30 @@ import {
   GetTrailCommand,
   GetTrailStatusCommand,
   type GetTrailStatusCommandOutput,
-  ListTagsCommand,
   type Trail,
   type GetTrailCommandOutput,
-  type ListTagsCommandOutput,
 } from '@aws-sdk/client-cloudtrail';
 import { expect } from 'chai';
 import { BaseConfig } from '../../BaseConfig';
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
 
 describe('Monitoring and logging application validation', function () {
-  const { accessKeyId, secretAccessKey, region } = BaseConfig;
-
-  const ec2Client: EC2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const { region } = BaseConfig;
 
-  const cloudWatchClient: CloudWatchClient = new CloudWatchClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const cloudWatchClient: CloudWatchClient = awsClients.cloudWatch;
 
-  const cloudWatchLogsClient: CloudWatchLogsClient = new CloudWatchLogsClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const cloudWatchLogsClient: CloudWatchLogsClient = awsClients.cloudWatchLogs;
 
-  const cloudTrailClient: CloudTrailClient = new CloudTrailClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const cloudTrailClient: CloudTrailClient = awsClients.cloudTrail;
 
   let ec2InstanceId: string = null;
 
   before(async () => {
-    const params: DescribeInstancesCommandInput = {
-      Filters: [
-        {
-          Name: 'instance-state-name',
-          Values: ['running'],
-        },
-      ],
-    };
-
-    const data: DescribeInstancesCommandOutput = await ec2Client.send(new DescribeInstancesCommand(params));
-
-    const deployedInstances: any[] = data.Reservations.reduce((acc, reservation) => {
-      return acc.concat(
-        reservation.Instances.map((instance) => ({
-          id: instance.InstanceId,
-          type: instance.PublicIpAddress ? 'public' : 'private',
-          os: instance,
-        })),
-      );
-    }, []);
-
-    const ec2Instance: any = deployedInstances.find((instance) => instance.type === 'public');
-
-    if (!ec2Instance) throw new Error(`No public EC2 instance found`);
-
-    ({ InstanceId: ec2InstanceId } = ec2Instance.os);
+    ({
+      publicInstance: { id: ec2InstanceId },
+    } = await getDeploymentContext(StackProfiles.cloudxserverless).resolve('publicInstance'));
   });
 
   it('the application EC2 instance should have CloudWatch integration', async () => {
@@ -275,16 +221,6 @@ describe('Monitoring and logging application validation', function () {
 
     // Verify if the SSE-KMS encryption is not enabled for a CloudTrail
     expect(trailData.KmsKeyId, 'the SSE-KMS encryption is enabled for a CloudTrail').to.be.undefined;
-
-    // Verify if the trail has a specific tag for a CloudTrail
-    const tagsData: ListTagsCommandOutput = await cloudTrailClient.send(
-      new ListTagsCommand({ ResourceIdList: [trailData.TrailARN] }),
-    );
-
-    expect(
-      tagsData.ResourceTagList[0].TagsList.find((tag) => tag.Key === 'cloudx').Value,
-      `Tag 'cloudx' is not correct`,
-    ).to.equal('qa');
   });
 
   async function getLogGroupNames(logGroupNamePrefix: string): Promise<Array<string>> {
@@ -1,33 +1,20 @@
 import { expect } from 'chai';
-import {
-  RDSClient,
-  DescribeDBInstancesCommand,
-  type VpcSecurityGroupMembership,
-  type DescribeDBInstancesCommandOutput,
-  type DBInstance,
-  type Subnet,
-} from '@aws-sdk/client-rds';
+import { type VpcSecurityGroupMembership, type DBInstance, type Subnet } from '@aws-sdk/client-rds';
 import mysql, { type Connection } from 'mysql2/promise';
 import { log } from '../../utilities/common';
 import { BaseConfig } from '../../BaseConfig';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
 
 describe('RDS deployment validation', () => {
-  const { region, dbUsername: user, dbPassword: password, dbName: database, dbPort: port } = BaseConfig;
-
-  const rdsClient: RDSClient = new RDSClient({ region });
-
-  const rdsPrefix: string = 'cloudximage-databasemysqlinstanced';
+  const { dbUsername: user, dbPassword: password, dbName: database, dbPort: port } = BaseConfig;
 
   let rdsInstance: DBInstance = null;
 
   before(async () => {
-    const command: DescribeDBInstancesCommand = new DescribeDBInstancesCommand({});
-    const response: DescribeDBInstancesCommandOutput = await rdsClient.send(command);
-    const rdsInstances: DBInstance[] = response.DBInstances;
-
-    rdsInstance = rdsInstances.find((rds) => rds.DBInstanceIdentifier.includes(rdsPrefix));
-
-    if (!rdsInstance) throw new Error(`No MySQL RDS found with prefix: ${rdsPrefix}`);
+    ({
+      rdsInstance: { instance: rdsInstance },
+    } = await getDeploymentContext(StackProfiles.cloudximage).resolve('rdsInstance'));
   });
 
   it('the MySQL RDS instance is deployed in the private subnet and accessible only from application subnet', async () => {
@@ -42,10 +29,6 @@ describe('RDS deployment validation', () => {
 
     // Subnet assertions
     expect(rdsInstance.DBSubnetGroup.VpcId, 'DBSubnetGroup VpcId is not correct').to.exist.and.not.be.empty;
-    expect(
-      rdsInstance.DBSubnetGroup.DBSubnetGroupDescription,
-      'DBSubnetGroup DBSubnetGroupDescription is not correct',
-    ).to.equal('Subnet group for MySQLInstance database');
 
     const subnets: Subnet[] = rdsInstance.DBSubnetGroup.Subnets;
     expect(subnets, 'There are no subnets').to.be.an('array').that.is.not.empty;
@@ -63,7 +46,7 @@ describe('RDS deployment validation', () => {
         database,
         user,
         password,
-        port: Number(port),
+        port,
       });
 
       await connection.execute('SHOW TABLES;');
@@ -79,16 +62,4 @@ describe('RDS deployment validation', () => {
       }
     }
   });
-
-  it('checks RDS MySQL instance properties', () => {
-    expect(rdsInstance.DBInstanceClass).to.equal('db.t3.micro');
-    expect(rdsInstance.MultiAZ).to.be.false;
-    expect(rdsInstance.AllocatedStorage).to.equal(100);
-    expect(rdsInstance.StorageType).to.equal('gp2');
-    expect(rdsInstance.StorageEncrypted).to.be.false;
-    expect(rdsInstance.Engine).to.equal('mysql');
-    expect(rdsInstance.EngineVersion).to.equal('8.0.28');
-
-    expect(rdsInstance.TagList.find((tag) => tag.Key === 'cloudx').Value, `Tag 'cloudx' is not correct`).to.equal('qa');
-  });
 });
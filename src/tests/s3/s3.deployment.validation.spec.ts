@@ -1,85 +1,53 @@
 import { expect } from 'chai';
-import {
-  EC2Client,
-  DescribeInstancesCommand,
-  type DescribeInstancesCommandOutput,
-  type DescribeInstancesCommandInput,
-} from '@aws-sdk/client-ec2';
 import {
   GetBucketEncryptionCommand,
   GetBucketPolicyStatusCommand,
-  GetBucketTaggingCommand,
   GetBucketVersioningCommand,
   GetPublicAccessBlockCommand,
-  ListBucketsCommand,
-  type ListBucketsCommandOutput,
   ListObjectsCommand,
   type ListObjectsCommandOutput,
   S3Client,
-  type Tag,
 } from '@aws-sdk/client-s3';
-import axios, { type AxiosResponse } from 'axios';
+import { type AxiosResponse } from 'axios';
 import { readFileSync } from 'fs';
 import { Client } from 'ssh2';
 import { join } from 'path';
 import { log } from '../../utilities/common';
-import { BaseConfig } from '../../BaseConfig';
-
-const { accessKeyId, secretAccessKey, region } = BaseConfig;
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
+import { CloudXAppApiClient, type IImageMetadata } from '../../utilities/api/CloudXAppApiClient';
+import { getCloudXAppSchemas } from '../../utilities/api/cloudXAppSchemas';
 
 describe('S3 deployment validation', () => {
-  const ec2Client: EC2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
-
-  const s3Client: S3Client = new S3Client({ region });
+  const s3Client: S3Client = awsClients.s3;
 
   let publicIpAddress: string = null;
   let publicDnsName: string = null;
 
-  const bucketPrefix: string = 'cloudximage-imagestorebucket';
+  const { prefixes } = StackProfiles.cloudximage;
 
   before(async () => {
-    const params: DescribeInstancesCommandInput = {
-      Filters: [
-        {
-          Name: 'instance-state-name',
-          Values: ['running'],
-        },
-      ],
-    };
-
-    const data: DescribeInstancesCommandOutput = await ec2Client.send(new DescribeInstancesCommand(params));
+    const { publicInstance } = await getDeploymentContext(StackProfiles.cloudximage).resolve('publicInstance');
 
-    const deployedInstances: any[] = data.Reservations.reduce((acc, reservation) => {
-      return acc.concat(
-        reservation.Instances.map((instance) => ({
-          id: instance.InstanceId,
-          type: instance.PublicIpAddress ? 'public' : 'private',
-          instanceType: instance.InstanceType,
-          tags: instance.Tags,
-          rootBlockDeviceSize: instance.BlockDeviceMappings[0]?.Ebs,
-          os: instance,
-        })),
-      );
-    }, []);
-
-    const publicInstance: any = deployedInstances.find((instance) => instance.type === 'public');
-
-    ({ PublicIpAddress: publicIpAddress, PublicDnsName: publicDnsName } = publicInstance.os);
+    ({ publicIpAddress, publicDnsName } = publicInstance);
   });
 
   it('the application should be deployed in the public subnet and should be accessible by HTTP', async () => {
     // should be accessible via public IP address
-    const responsePublicIpAddress: AxiosResponse = await axios.get(`http://${publicIpAddress}/api/image`);
+    const responsePublicIpAddress: AxiosResponse<IImageMetadata[]> = await new CloudXAppApiClient(
+      `http://${publicIpAddress}`,
+      {},
+      { responseSchemas: getCloudXAppSchemas(StackProfiles.cloudximage) },
+    ).listImages();
     expect(responsePublicIpAddress.status, 'Get public IP address response status is not correct').to.equal(200);
 
     // should be accessible via public DNS Name
-    const responsePublicDnsName: AxiosResponse = await axios.get(`http://${publicDnsName}/api/image`);
+    const responsePublicDnsName: AxiosResponse<IImageMetadata[]> = await new CloudXAppApiClient(
+      `http://${publicDnsName}`,
+      {},
+      { responseSchemas: getCloudXAppSchemas(StackProfiles.cloudximage) },
+    ).listImages();
     expect(responsePublicDnsName.status, 'Get public DNS Name response status is not correct').to.equal(200);
   });
 
@@ -140,15 +108,11 @@ describe('S3 deployment validation', () => {
   });
 
   it('the application should have access to the S3 bucket via an IAM role', async () => {
-    const listBucketsCommand: ListBucketsCommand = new ListBucketsCommand({});
-    const listBucketsData: ListBucketsCommandOutput = await s3Client.send(listBucketsCommand);
-    const bucketName: string = listBucketsData.Buckets.find((bucket) => bucket.Name.startsWith(bucketPrefix))?.Name;
-
-    if (!bucketName) throw new Error(`No S3 bucket found with prefix: ${bucketPrefix}`);
+    const { bucketName } = await getDeploymentContext(StackProfiles.cloudximage).resolve('bucketName');
 
     try {
       const response: ListObjectsCommandOutput = await s3Client.send(new ListObjectsCommand({ Bucket: bucketName }));
-      expect(response.Name, 'Bucket name is not correct').to.contains(bucketPrefix);
+      expect(response.Name, 'Bucket name is not correct').to.contains(prefixes.bucket);
     } catch (error) {
       if (error instanceof Error) log(error.message);
       expect.fail('Error accessing S3 bucket');
@@ -156,19 +120,7 @@ describe('S3 deployment validation', () => {
   });
 
   it('should return S3 bucket data', async () => {
-    const listBucketsCommand: ListBucketsCommand = new ListBucketsCommand({});
-    const listBucketsData: ListBucketsCommandOutput = await s3Client.send(listBucketsCommand);
-    const bucketName: string = listBucketsData.Buckets.find((bucket) => bucket.Name.startsWith(bucketPrefix))?.Name;
-
-    if (!bucketName) throw new Error(`No S3 bucket found with prefix: ${bucketPrefix}`);
-
-    // Check bucket tags
-    const getBucketTaggingCommand: GetBucketTaggingCommand = new GetBucketTaggingCommand({ Bucket: bucketName });
-    const { TagSet } = await s3Client.send(getBucketTaggingCommand);
-    expect(
-      TagSet.some((tag: Tag) => tag.Key === 'cloudx'),
-      'There is no bucket tag with name "cloudx"',
-    ).to.be.true;
+    const { bucketName } = await getDeploymentContext(StackProfiles.cloudximage).resolve('bucketName');
 
     // Check bucket encryption
     const getBucketEncryptionCommand: GetBucketEncryptionCommand = new GetBucketEncryptionCommand({
@@ -1,33 +1,24 @@
 import {
   DescribeTableCommand,
   DynamoDBClient,
-  ListTablesCommand,
-  type ListTablesCommandOutput,
   type DescribeTableCommandOutput,
-  ListTagsOfResourceCommand,
   DescribeTimeToLiveCommand,
   ScanCommand,
   type DescribeTimeToLiveCommandOutput,
-  type ListTagsOfResourceCommandOutput,
   type ScanCommandOutput,
 } from '@aws-sdk/client-dynamodb';
 import { expect } from 'chai';
 import {
-  ListQueuesCommand,
-  type ListQueuesCommandOutput,
   SQSClient,
   SendMessageCommand,
   type SendMessageCommandInput,
   type SendMessageCommandOutput,
 } from '@aws-sdk/client-sqs';
 import {
-  ListTopicsCommand,
-  type ListTopicsCommandOutput,
   SNSClient,
   type SubscribeCommandInput,
   SubscribeCommandOutput,
   SubscribeCommand,
-  ConfirmSubscriptionCommand,
   type ListSubscriptionsByTopicCommandOutput,
   ListSubscriptionsByTopicCommand,
   type Subscription,
@@ -36,158 +27,78 @@ import {
 } from '@aws-sdk/client-sns';
 import {
   type EventSourceMappingConfiguration,
-  type FunctionConfiguration,
   GetFunctionConfigurationCommand,
   type GetFunctionConfigurationCommandOutput,
   LambdaClient,
   ListEventSourceMappingsCommand,
-  ListFunctionsCommand,
-  type ListFunctionsCommandOutput,
-  ListTagsCommand,
-  type ListTagsCommandOutput,
 } from '@aws-sdk/client-lambda';
-import {
-  DescribeInstancesCommand,
-  type DescribeInstancesCommandInput,
-  type DescribeInstancesCommandOutput,
-  EC2Client,
-} from '@aws-sdk/client-ec2';
 import _ from 'lodash';
-import { createReadStream } from 'fs-extra';
-import FormData from 'form-data';
-import axios, { type AxiosResponse } from 'axios';
+import { type AxiosResponse } from 'axios';
 import { join } from 'path';
 import { IAMClient, ListRolesCommand, ListRolesCommandOutput, Role } from '@aws-sdk/client-iam';
 import { BaseConfig } from '../../BaseConfig';
-import { generateMailtrapEmail } from '../../utilities/common';
-import { MailtrapApiClient } from '../../utilities/api/MailtrapApiClient';
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
+import { generateInboxEmail, getEmailInbox, type IEmailInbox } from '../../utilities/email/emailInbox';
+import { parseImageEventNotification, type IImageEventNotification } from '../../utilities/email/notificationParser';
+import { confirmEmailSubscription } from '../../utilities/aws/snsSubscriptions';
+import { CloudXAppApiClient, type IUploadedImage } from '../../utilities/api/CloudXAppApiClient';
+import { getCloudXAppSchemas } from '../../utilities/api/cloudXAppSchemas';
 
 describe('Serverless application functional validation', function () {
-  const { accessKeyId, secretAccessKey, region } = BaseConfig;
-
-  const ec2Client: EC2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const { expected } = BaseConfig;
 
-  const iamClient: IAMClient = new IAMClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const iamClient: IAMClient = awsClients.iam;
 
-  const dynamoDBClient = new DynamoDBClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const dynamoDBClient: DynamoDBClient = awsClients.dynamoDB;
 
-  const sqsClient: SQSClient = new SQSClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
-
-  const snsClient: SNSClient = new SNSClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const sqsClient: SQSClient = awsClients.sqs;
 
-  const lambdaClient = new LambdaClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const snsClient: SNSClient = awsClients.sns;
 
-  const mailtrapEmailEndpoint: string = generateMailtrapEmail();
+  const lambdaClient: LambdaClient = awsClients.lambda;
 
-  const dynamoDBTablePrefix = 'cloudxserverless-DatabaseImagesTable';
-  const topicSnsPrefix = 'cloudxserverless-TopicSNSTopic';
-  const queueSqsPrefix = 'cloudxserverless-QueueSQSQueue';
-  const lambdaFunctionPrefix = 'cloudxserverless-EventHandlerLambda';
+  const { prefixes } = StackProfiles.cloudxserverless;
 
-  let ec2IpAddress: string = null;
+  let inbox: IEmailInbox = null;
+  let inboxEmail: string = null;
+  let appApi: CloudXAppApiClient = null;
   let dynamoDBTableName: string = null;
   let topicSns: string = null;
   let queueSqsUrl: string = null;
   let lambdaFunctionName: string = null;
 
   before(async () => {
-    const params: DescribeInstancesCommandInput = {
-      Filters: [
-        {
-          Name: 'instance-state-name',
-          Values: ['running'],
-        },
-      ],
-    };
-
-    const data: DescribeInstancesCommandOutput = await ec2Client.send(new DescribeInstancesCommand(params));
-
-    const deployedInstances: any[] = data.Reservations.reduce((acc, reservation) => {
-      return acc.concat(
-        reservation.Instances.map((instance) => ({
-          id: instance.InstanceId,
-          type: instance.PublicIpAddress ? 'public' : 'private',
-          os: instance,
-        })),
-      );
-    }, []);
-
-    const ec2Instance: any = deployedInstances.find((instance) => instance.type === 'public');
-
-    if (!ec2Instance) throw new Error(`No public EC2 instance found`);
-
-    ({ PublicIpAddress: ec2IpAddress } = ec2Instance.os);
-
-    const listTablesResp: ListTablesCommandOutput = await dynamoDBClient.send(new ListTablesCommand({}));
-
-    dynamoDBTableName = listTablesResp.TableNames.find((table) => table.includes(dynamoDBTablePrefix));
-
-    if (!dynamoDBTableName) throw new Error('There is no DynamoDB table');
-
-    const listTopicsResp: ListTopicsCommandOutput = await snsClient.send(new ListTopicsCommand({}));
-
-    ({ TopicArn: topicSns } = listTopicsResp.Topics.find((topic) => topic.TopicArn.includes(topicSnsPrefix)));
-
-    if (!topicSns) throw new Error('There is no Topics ARN for the SNS');
-
-    const listQueuesResp: ListQueuesCommandOutput = await sqsClient.send(new ListQueuesCommand({}));
-
-    queueSqsUrl = listQueuesResp.QueueUrls.find((queue) => queue.includes(queueSqsPrefix));
-
-    if (!queueSqsUrl) throw new Error('There is no Queue URL for the SQS');
-
-    const listFunctionsResp: ListFunctionsCommandOutput = await lambdaClient.send(new ListFunctionsCommand({}));
-
-    lambdaFunctionName = listFunctionsResp.Functions.find((lambda: FunctionConfiguration) => {
-      return lambda.FunctionName.includes(lambdaFunctionPrefix);
-    }).FunctionName;
+    inbox = await getEmailInbox();
+    inboxEmail = generateInboxEmail();
+
+    const deployment = await getDeploymentContext(StackProfiles.cloudxserverless).resolve(
+      'appBaseUrl',
+      'tableName',
+      'topicArn',
+      'queueUrl',
+      'lambdaFunction',
+    );
 
-    if (!lambdaFunctionName) throw new Error('There is no Lambda function');
+    appApi = new CloudXAppApiClient(
+      deployment.appBaseUrl,
+      {},
+      { responseSchemas: getCloudXAppSchemas(StackProfiles.cloudxserverless) },
+    );
+    dynamoDBTableName = deployment.tableName;
+    topicSns = deployment.topicArn;
+    queueSqsUrl = deployment.queueUrl;
+    lambdaFunctionName = deployment.lambdaFunction.FunctionName;
   });
 
   it('the application database should be replaced with a DynamoDB table', async () => {
     const describeTableResp: DescribeTableCommandOutput = await dynamoDBClient.send(
       new DescribeTableCommand({ TableName: dynamoDBTableName }),
     );
-    expect(describeTableResp.Table.TableArn, `Table TableArn is not correct`).to.includes(dynamoDBTablePrefix);
+    expect(describeTableResp.Table.TableArn, `Table TableArn is not correct`).to.includes(prefixes.table);
     expect(describeTableResp.Table.TableId, `Table TableId is not correct`).to.exist.and.not.be.empty;
-    expect(describeTableResp.Table.TableName, `Table TableName is not correct`).to.includes(dynamoDBTablePrefix);
+    expect(describeTableResp.Table.TableName, `Table TableName is not correct`).to.includes(prefixes.table);
     expect(describeTableResp.Table.TableStatus, `Table TableStatus is not correct`).to.equal('ACTIVE');
   });
 
@@ -195,15 +106,7 @@ describe('Serverless application functional validation', function () {
     const randomImage: string = _.sample(['beach.jpg', 'coffee.jpg', 'tree.jpeg']);
     const filePath: string = join(process.cwd(), 'src', 'testData', randomImage);
 
-    const formData: FormData = new FormData();
-    formData.append('upfile', createReadStream(filePath));
-
-    const headers: { [key: string]: string } = {
-      'Content-Type': `multipart/form-data; boundary=${formData.getBoundary()}`,
-      ...formData.getHeaders(),
-    };
-
-    const response: AxiosResponse = await axios.post(`http://${ec2IpAddress}/api/image`, formData, { headers });
+    const response: AxiosResponse<IUploadedImage> = await appApi.uploadImage(filePath);
     expect(response.status, 'Post image response status is not correct').to.equal(200);
     expect(response.data.id, 'Image ID is not correct').to.be.a('string');
 
@@ -228,36 +131,15 @@ describe('Serverless application functional validation', function () {
     const subscribeParams: SubscribeCommandInput = {
       Protocol: 'email',
       TopicArn: topicSns,
-      Endpoint: mailtrapEmailEndpoint,
+      Endpoint: inboxEmail,
     };
 
     // Subscribe
     const subscribeResp: SubscribeCommandOutput = await snsClient.send(new SubscribeCommand(subscribeParams));
     expect(subscribeResp.SubscriptionArn, 'SubscriptionArn is not correct').to.be.a('string');
 
-    // Get email
-    const subject = 'AWS Notification - Subscription Confirmation';
-    const mailtrapService: MailtrapApiClient = new MailtrapApiClient();
-    const subscriptionResp: AxiosResponse<string, any> = await mailtrapService.getLatestMessageHTMLBySubject(
-      mailtrapEmailEndpoint,
-      subject,
-    );
-
-    // Extract URL
-    const urlRegex: RegExp = /(https:\/\/sns\.us-east-1\.amazonaws\.com[^"]*)/;
-    const [, url] = subscriptionResp.data.match(urlRegex);
-
-    // Extract token
-    const tokenRegex: RegExp = /Token=([^&]*)/;
-    const [, token] = url.match(tokenRegex);
-
     // Confirm subscription
-    await snsClient.send(
-      new ConfirmSubscriptionCommand({
-        TopicArn: topicSns,
-        Token: token,
-      }),
-    );
+    await confirmEmailSubscription(topicSns, inboxEmail, { inbox });
 
     // Get subscription
     const listSubscriptionsResp: ListSubscriptionsByTopicCommandOutput = await snsClient.send(
@@ -267,14 +149,14 @@ describe('Serverless application functional validation', function () {
     );
 
     const subscription: Subscription = listSubscriptionsResp.Subscriptions.find(
-      ({ Endpoint }) => Endpoint === mailtrapEmailEndpoint,
+      ({ Endpoint }) => Endpoint === inboxEmail,
     );
 
     expect(subscription.SubscriptionArn, 'SubscriptionArn is not correct').to.includes(
       'cloudxserverless-TopicSNSTopic',
     );
     expect(subscription.Protocol, 'Protocol is not correct').to.equal('email');
-    expect(subscription.Endpoint, 'Endpoint is not correct').to.equal(mailtrapEmailEndpoint);
+    expect(subscription.Endpoint, 'Endpoint is not correct').to.equal(inboxEmail);
     expect(subscription.TopicArn, 'TopicArn is not correct').to.equal(topicSns);
   });
 
@@ -282,33 +164,22 @@ describe('Serverless application functional validation', function () {
     const randomImage: string = _.sample(['beach.jpg', 'coffee.jpg', 'tree.jpeg']);
     const filePath: string = join(process.cwd(), 'src', 'testData', randomImage);
 
-    const formData: FormData = new FormData();
-    formData.append('upfile', createReadStream(filePath));
-
-    const headers: { [key: string]: string } = {
-      'Content-Type': `multipart/form-data; boundary=${formData.getBoundary()}`,
-      ...formData.getHeaders(),
-    };
-
-    const response: AxiosResponse = await axios.post(`http://${ec2IpAddress}/api/image`, formData, { headers });
+    const since: Date = new Date();
+    const response: AxiosResponse<IUploadedImage> = await appApi.uploadImage(filePath);
     expect(response.status, 'Post image response status is not correct').to.equal(200);
     expect(response.data.id, 'Image ID is not correct').to.be.a('string');
 
     // Get email
     const subject = 'AWS Notification Message';
-    const mailtrapService: MailtrapApiClient = new MailtrapApiClient();
-    const notificationResp: AxiosResponse<string, any> = await mailtrapService.getLatestMessageTextBySubject(
-      mailtrapEmailEndpoint,
-      subject,
-    );
-    const emailText: string = notificationResp.data;
-
-    expect(emailText, 'Email should include image upload event_type').to.includes('event_type: upload');
-    expect(emailText, 'Email should include image upload object_key').to.includes('object_key: images/');
-    expect(emailText, 'Email should include image upload object_type').to.includes('object_type: binary/octet-stream');
-    expect(emailText, 'Email should include image upload last_modified').to.includes('last_modified: ');
-    expect(emailText, 'Email should include image upload object_size').to.includes('object_size: ');
-    expect(emailText, 'Email should include image upload download_link').to.includes('download_link: http://ec2');
+    const emailText: string = await inbox.getLatestMessageTextBySubject(inboxEmail, subject, { since });
+
+    const imageEvent: IImageEventNotification = parseImageEventNotification(emailText);
+
+    expect(imageEvent.event_type, 'Email event_type is not correct').to.equal('upload');
+    expect(imageEvent.object_key, 'Email object_key is not correct').to.match(/^images\//);
+    expect(imageEvent.object_type, 'Email object_type is not correct').to.equal('binary/octet-stream');
+    expect(imageEvent.object_size, 'Email object_size is not correct').to.be.greaterThan(0);
+    expect(imageEvent.download_link, 'Email download_link is not correct').to.match(/^http:\/\/ec2/);
   });
 
   it('should return a list of all subscriptions', async () => {
@@ -339,7 +210,7 @@ describe('Serverless application functional validation', function () {
 
     const sqsQueueLambda: EventSourceMappingConfiguration = listEventSourceMappingsResp.EventSourceMappings.find(
       (mapping: EventSourceMappingConfiguration) => {
-        return mapping.FunctionArn.includes(lambdaFunctionPrefix);
+        return mapping.FunctionArn.includes(prefixes.lambdaFunction);
       },
     );
 
@@ -376,7 +247,9 @@ describe('Serverless application functional validation', function () {
       }),
     );
 
-    expect(getFunctionConfigurationData.MemorySize, `Lambda MemorySize is not correct`).to.equal(128);
+    expect(getFunctionConfigurationData.MemorySize, `Lambda MemorySize is not correct`).to.equal(
+      expected.lambdaMemorySize,
+    );
     expect(getFunctionConfigurationData.Timeout, `Lambda Timeout is not correct`).to.equal(3);
     expect(getFunctionConfigurationData.EphemeralStorage.Size, `Lambda Size is not correct`).to.equal(512);
     expect(getFunctionConfigurationData.Environment.Variables.TOPIC_ARN, `Lambda TOPIC_ARN is not correct`).to.includes(
@@ -386,16 +259,6 @@ describe('Serverless application functional validation', function () {
     expect(getFunctionConfigurationData.LoggingConfig.LogGroup, `Lambda LogGroup is not correct`).to.includes(
       '/aws/lambda/cloudxserverless-EventHandlerLambda',
     );
-
-    const lambdaFunctionArn: string = getFunctionConfigurationData.FunctionArn;
-
-    const listTagsResp: ListTagsCommandOutput = await lambdaClient.send(
-      new ListTagsCommand({
-        Resource: lambdaFunctionArn,
-      }),
-    );
-
-    expect(listTagsResp?.Tags?.cloudx, `Lambda Tags are not correct`).to.equal('qa');
   });
 
   it('should return DynamoDB table', async () => {
@@ -424,16 +287,5 @@ describe('Serverless application functional validation', function () {
       describeTimeToLiveResp.TimeToLiveDescription.TimeToLiveStatus,
       `DynamoDB TimeToLiveDescription.TimeToLiveStatus is not correct`,
     ).to.eql('DISABLED');
-
-    const resourceArn: string = describeTableResp.Table.TableArn;
-
-    const listTagsOfResourceResp: ListTagsOfResourceCommandOutput = await dynamoDBClient.send(
-      new ListTagsOfResourceCommand({ ResourceArn: resourceArn }),
-    );
-
-    expect(
-      listTagsOfResourceResp.Tags.find((tag) => tag.Key === 'cloudx').Value,
-      `DynamoDB Tags are not correct`,
-    ).to.equal('qa');
   });
 });
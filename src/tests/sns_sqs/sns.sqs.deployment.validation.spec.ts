@@ -4,102 +4,60 @@ import {
   UnsubscribeCommand,
   ListSubscriptionsCommand,
   GetSubscriptionAttributesCommand,
-  ListTopicsCommand,
-  type ListTopicsCommandOutput,
   type SubscribeCommandOutput,
   ListSubscriptionsByTopicCommand,
   type Subscription,
   type ListSubscriptionsByTopicCommandOutput,
   type ListSubscriptionsCommandOutput,
   type SubscribeCommandInput,
-  ConfirmSubscriptionCommand,
   PublishCommand,
   type PublishCommandInput,
   type PublishCommandOutput,
   GetTopicAttributesCommand,
   type GetTopicAttributesCommandOutput,
-  ListTagsForResourceCommand,
-  type ListTagsForResourceCommandOutput,
-  type ConfirmSubscriptionCommandOutput,
 } from '@aws-sdk/client-sns';
 import {
   GetQueueAttributesCommand,
   type GetQueueAttributesCommandOutput,
-  ListQueuesCommand,
-  type ListQueuesCommandOutput,
   SQSClient,
   type SendMessageCommandInput,
   SendMessageCommand,
   type SendMessageCommandOutput,
-  ListQueueTagsCommand,
-  type ListQueueTagsCommandOutput,
 } from '@aws-sdk/client-sqs';
 import { DescribeInstancesCommand, type DescribeInstancesCommandOutput, EC2Client } from '@aws-sdk/client-ec2';
 import { GetInstanceProfileCommand, type GetInstanceProfileCommandOutput, IAMClient } from '@aws-sdk/client-iam';
 import { expect } from 'chai';
 import { randomUUID } from 'node:crypto';
-import { type AxiosResponse } from 'axios';
-import { BaseConfig } from '../../BaseConfig';
-import { generateMailtrapEmail } from '../../utilities/common';
-import { MailtrapApiClient } from '../../utilities/api/MailtrapApiClient';
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
+import { generateInboxEmail, getEmailInbox, type IEmailInbox } from '../../utilities/email/emailInbox';
+import { confirmEmailSubscription } from '../../utilities/aws/snsSubscriptions';
 
 describe('SNS/SQS deployment validation', function () {
-  const { accessKeyId, secretAccessKey, region } = BaseConfig;
-
-  const snsClient: SNSClient = new SNSClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const snsClient: SNSClient = awsClients.sns;
 
-  const sqsClient: SQSClient = new SQSClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const sqsClient: SQSClient = awsClients.sqs;
 
-  const ec2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const ec2Client: EC2Client = awsClients.ec2;
 
-  const iamClient = new IAMClient({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
-
-  const topicSnsPrefix = 'cloudximage-TopicSNSTopic';
-  const queueSqsPrefix = 'cloudximage-QueueSQSQueue';
+  const iamClient: IAMClient = awsClients.iam;
 
+  let inbox: IEmailInbox = null;
   let topicSns: string = null;
   let queueSqsUrl: string = null;
 
   before(async () => {
-    const listTopicsResp: ListTopicsCommandOutput = await snsClient.send(new ListTopicsCommand({}));
-
-    ({ TopicArn: topicSns } = listTopicsResp.Topics.find((topic) => topic.TopicArn.includes(topicSnsPrefix)));
-
-    if (!topicSns) throw new Error('There is no Topics ARN for the SNS');
+    inbox = await getEmailInbox();
 
-    const listQueuesResp: ListQueuesCommandOutput = await sqsClient.send(new ListQueuesCommand({}));
-
-    queueSqsUrl = listQueuesResp.QueueUrls.find((queue) => queue.includes(queueSqsPrefix));
-
-    if (!queueSqsUrl) throw new Error('There is no Queue URL for the SQS');
+    ({ topicArn: topicSns, queueUrl: queueSqsUrl } = await getDeploymentContext(StackProfiles.cloudximage).resolve(
+      'topicArn',
+      'queueUrl',
+    ));
   });
 
   it('should subscribe and unsubscribe a user', async () => {
-    const endpoint: string = generateMailtrapEmail();
+    const endpoint: string = generateInboxEmail();
 
     const subscribeParams: SubscribeCommandInput = {
       Protocol: 'email',
@@ -111,31 +69,8 @@ describe('SNS/SQS deployment validation', function () {
     const subscribeResp: SubscribeCommandOutput = await snsClient.send(new SubscribeCommand(subscribeParams));
     expect(subscribeResp.SubscriptionArn, 'SubscriptionArn is not correct').to.be.a('string');
 
-    // Get email
-    const subject = 'AWS Notification - Subscription Confirmation';
-    const mailtrapService: MailtrapApiClient = new MailtrapApiClient();
-    const subscriptionResp: AxiosResponse<string, any> = await mailtrapService.getLatestMessageHTMLBySubject(
-      endpoint,
-      subject,
-    );
-
-    // Extract URL
-    const urlRegex: RegExp = /(https:\/\/sns\.us-east-1\.amazonaws\.com[^"]*)/;
-    const [, url] = subscriptionResp.data.match(urlRegex);
-
-    // Extract token
-    const tokenRegex: RegExp = /Token=([^&]*)/;
-    const [, token] = url.match(tokenRegex);
-
     // Confirm subscription
-    const confirmSubscriptionResp: ConfirmSubscriptionCommandOutput = await snsClient.send(
-      new ConfirmSubscriptionCommand({
-        TopicArn: topicSns,
-        Token: token,
-      }),
-    );
-
-    const { SubscriptionArn } = confirmSubscriptionResp;
+    const { subscriptionArn: SubscriptionArn } = await confirmEmailSubscription(topicSns, endpoint, { inbox });
 
     // Get subscription
     const listSubscriptionsResp: ListSubscriptionsByTopicCommandOutput = await snsClient.send(
@@ -240,14 +175,6 @@ describe('SNS/SQS deployment validation', function () {
     );
 
     expect(attrsResp.Attributes?.KmsMasterKeyId, 'Encryption is enabled').to.be.undefined;
-
-    const tagsResp: ListTagsForResourceCommandOutput = await snsClient.send(
-      new ListTagsForResourceCommand({
-        ResourceArn: topicSns,
-      }),
-    );
-
-    expect(tagsResp.Tags.find((tag) => tag.Key === 'cloudx').Value, `Tag 'cloudx' is not correct`).to.equal('qa');
   });
 
   it('should match SQS queue requirements', async () => {
@@ -259,13 +186,5 @@ describe('SNS/SQS deployment validation', function () {
     );
 
     expect(attrsResp.Attributes?.SqsManagedSseEnabled, 'Encryption is disabled').to.equal('true');
-
-    const tagsResp: ListQueueTagsCommandOutput = await sqsClient.send(
-      new ListQueueTagsCommand({
-        QueueUrl: queueSqsUrl,
-      }),
-    );
-
-    expect(tagsResp.Tags.cloudx, `Tag 'cloudx' is not correct`).to.equal('qa');
   });
 });
@@ -0,0 +1,42 @@
+import addContext from 'mochawesome/addContext';
+import { getSelectedStackProfiles, IamStackName } from '../../stacks/StackProfiles';
+import type { IStackResource } from '../../utilities/aws/CloudFormationStack';
+import { StackTagReader } from '../../utilities/tags/StackTagReader';
+import {
+  checkTagCompliance,
+  toUncheckedViolations,
+  type ITaggedResource,
+  type ITagViolation,
+} from '../../utilities/tags/tagRules';
+import { TagComplianceError } from '../../utilities/errors/TagComplianceError';
+
+// The IAM stack has no profile, so like its expectation file it is checked whichever stack is selected
+const stackNames: string[] = [...getSelectedStackProfiles().map(({ stackName }) => stackName), IamStackName];
+
+stackNames.forEach((stackName) => {
+  describe(`Tag compliance of ${stackName}`, () => {
+    let resources: ITaggedResource[] = null;
+    let uncheckedResources: IStackResource[] = null;
+
+    before(async () => {
+      const reader = new StackTagReader(stackName);
+
+      [resources, uncheckedResources] = await Promise.all([reader.read(), reader.findUncheckedResources()]);
+    });
+
+    it('every resource should be tagged according to the tag rules', function () {
+      const violations: ITagViolation[] = [
+        ...checkTagCompliance(resources, stackName),
+        ...toUncheckedViolations(uncheckedResources),
+      ];
+
+      addContext(this, { title: 'Checked resources', value: resources.map(({ arn }) => arn) });
+
+      if (!violations.length) return;
+
+      addContext(this, { title: 'Tag violations', value: violations });
+
+      throw new TagComplianceError(stackName, violations);
+    });
+  });
+});
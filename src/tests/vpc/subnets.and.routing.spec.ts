@@ -1,30 +1,20 @@
 import { expect } from 'chai';
+import { EC2Client, DescribeSubnetsCommand, Subnet, type DescribeSubnetsCommandOutput } from '@aws-sdk/client-ec2';
+import { awsClients } from '../../utilities/aws/AwsClients';
 import {
-  EC2Client,
-  DescribeSubnetsCommand,
-  DescribeRouteTablesCommand,
-  DescribeInternetGatewaysCommand,
-  Subnet,
-  type DescribeSubnetsCommandOutput,
-  type DescribeRouteTablesCommandOutput,
-  type Route,
-  type DescribeInternetGatewaysCommandOutput,
-} from '@aws-sdk/client-ec2';
-import { BaseConfig } from '../../BaseConfig';
-
-const { accessKeyId, secretAccessKey, region } = BaseConfig;
+  formatRouteResolution,
+  type IEgressPath,
+  type IRouteResolution,
+  loadRouteTableAnalyzer,
+  type RouteTableAnalyzer,
+} from '../../utilities/network/RouteTableAnalyzer';
 
 describe('Subnets and routing', () => {
   let publicSubnet: Subnet = null;
   let privateSubnet: Subnet = null;
+  let routing: RouteTableAnalyzer = null;
 
-  const ec2Client: EC2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const ec2Client: EC2Client = awsClients.ec2;
 
   before(async () => {
     const subnets: DescribeSubnetsCommandOutput = await ec2Client.send(new DescribeSubnetsCommand({}));
@@ -36,43 +26,20 @@ describe('Subnets and routing', () => {
     privateSubnet = subnets.Subnets.filter(({ Tags }) => Tags).find((subnet) =>
       subnet.Tags.find(({ Key, Value }) => Key === 'aws-cdk:subnet-name' && Value === 'PrivateSubnet'),
     );
-  });
 
-  it('public subnet should be accessible from the internet via an Internet Gateway', async () => {
-    expect(publicSubnet.SubnetId, 'Public subnet ID not found.').to.exist.and.not.be.empty;
-
-    const routeTablesResult: DescribeRouteTablesCommandOutput = await ec2Client.send(
-      new DescribeRouteTablesCommand({
-        Filters: [{ Name: 'association.subnet-id', Values: [publicSubnet.SubnetId] }],
-      }),
-    );
+    if (!publicSubnet || !privateSubnet) throw new Error('Public or private subnet not found.');
 
-    // Find a route with destination 0.0.0.0/0 which indicates it routes internet traffic
-    const internetRoute: Route = routeTablesResult.RouteTables[0].Routes.find(
-      (route) => route.DestinationCidrBlock === '0.0.0.0/0',
-    );
+    routing = await loadRouteTableAnalyzer(publicSubnet.VpcId);
+  });
 
-    // Check if the route exists and the GatewayId parameter starts with "igw-", which indicates an Internet Gateway
-    expect(internetRoute, 'Route does not exist').to.be.an('object').to.exist.and.not.be.empty;
-    expect(internetRoute.GatewayId, 'Gateway ID is not correct').to.match(/^igw-/);
+  it('public subnet should be accessible from the internet via an Internet Gateway', () => {
+    const { hops, reachesInternet }: IEgressPath = routing.traceEgress(publicSubnet.SubnetId);
 
-    // Check if the Internet Gateway exists and is attached to the VPC
-    const internetGatewaysResult: DescribeInternetGatewaysCommandOutput = await ec2Client.send(
-      new DescribeInternetGatewaysCommand({
-        Filters: [{ Name: 'internet-gateway-id', Values: [internetRoute.GatewayId] }],
-      }),
+    expect(hops[0].target.kind, `Public subnet route is not correct: ${formatRouteResolution(hops[0])}`).to.equal(
+      'internetGateway',
     );
-
-    expect(internetGatewaysResult.InternetGateways, 'Internet gateways do not exist').to.be.an('array').and.not.be
-      .empty;
-    expect(
-      internetGatewaysResult.InternetGateways[0].Attachments[0].State,
-      'Internet gateways Attachments.State is not correct',
-    ).to.equal('available');
-    expect(
-      internetGatewaysResult.InternetGateways[0].Attachments[0].VpcId,
-      'Internet gateways Attachments.VpcId is not correct',
-    ).to.equal(publicSubnet.VpcId);
+    expect(reachesInternet, 'The Internet Gateway is not attached to the VPC').to.be.true;
+    expect(routing.classifySubnet(publicSubnet.SubnetId), 'Public subnet classification').to.equal('public');
   });
 
   it('public and private subnets should be in the same VPC', () => {
@@ -80,64 +47,29 @@ describe('Subnets and routing', () => {
     expect(publicSubnet.VpcId, 'Subnets are in the different VPCs').to.equal(privateSubnet.VpcId);
   });
 
-  it('public subnet should have local routes to the private subnet', async () => {
-    // Check route tables for local routes
-    const routeTablesResult: DescribeRouteTablesCommandOutput = await ec2Client.send(
-      new DescribeRouteTablesCommand({
-        Filters: [{ Name: 'vpc-id', Values: [publicSubnet.VpcId] }],
-      }),
-    );
-
-    routeTablesResult.RouteTables.forEach((routeTable) => {
-      const localRoute = routeTable.Routes.find((route) => route.GatewayId === 'local');
-      expect(localRoute, 'Local route does not exist').to.be.an('object').and.not.be.empty;
+  it('public and private subnets should reach each other through the local route', () => {
+    [
+      routing.resolveRoute(publicSubnet.SubnetId, privateSubnet.CidrBlock),
+      routing.resolveRoute(privateSubnet.SubnetId, publicSubnet.CidrBlock),
+    ].forEach((resolution: IRouteResolution) => {
+      expect(resolution.target.kind, `Route is not local: ${formatRouteResolution(resolution)}`).to.equal('local');
     });
   });
 
-  it('private subnet should have access to the internet via a NAT Gateway', async () => {
-    if (!privateSubnet) {
-      throw new Error('Private subnet should exist.');
-    }
+  it('private subnet should have access to the internet via a NAT Gateway', () => {
+    const { hops, reachesInternet }: IEgressPath = routing.traceEgress(privateSubnet.SubnetId);
+    const path: string = hops.map(formatRouteResolution).join(', ');
 
-    const routeTables: DescribeRouteTablesCommandOutput = await ec2Client.send(
-      new DescribeRouteTablesCommand({
-        Filters: [{ Name: 'association.subnet-id', Values: [privateSubnet.SubnetId] }],
-      }),
-    );
-
-    if (!routeTables.RouteTables.length) {
-      throw new Error('No Route Table found for the private subnet.');
-    }
-
-    const internetRoute: Route = routeTables.RouteTables[0].Routes.find(
-      (route) => route.DestinationCidrBlock === '0.0.0.0/0',
-    );
-
-    // Check if the route exists and if the NatGatewayId parameter starts with "nat-", which indicates a NAT Gateway
-    expect(internetRoute, 'Route does not exist').to.be.an('object').and.not.be.empty;
-    expect(internetRoute.NatGatewayId, 'Route NatGatewayId is not correct').to.match(/^nat-/);
+    expect(hops[0].target.kind, `Private subnet route is not correct: ${path}`).to.equal('natGateway');
+    expect(reachesInternet, `The NAT Gateway does not reach the Internet: ${path}`).to.be.true;
+    expect(routing.classifySubnet(privateSubnet.SubnetId), 'Private subnet classification').to.equal('private');
   });
 
-  it('private subnet should not have direct access to the public internet via an Internet Gateway', async () => {
-    if (!privateSubnet) {
-      throw new Error('Private subnet should exist.');
-    }
+  it('private subnet should not have direct access to the public internet via an Internet Gateway', () => {
+    const resolution: IRouteResolution = routing.resolveRoute(privateSubnet.SubnetId, '0.0.0.0/0');
 
-    const routeTables: DescribeRouteTablesCommandOutput = await ec2Client.send(
-      new DescribeRouteTablesCommand({
-        Filters: [{ Name: 'association.subnet-id', Values: [privateSubnet.SubnetId] }],
-      }),
+    expect(resolution.target.kind, `Route is not correct: ${formatRouteResolution(resolution)}`).to.not.equal(
+      'internetGateway',
     );
-
-    if (!routeTables.RouteTables.length) {
-      throw new Error('No Route Table found for the private subnet.');
-    }
-
-    const internetRoute: Route = routeTables.RouteTables[0].Routes.find(
-      (route) => route.DestinationCidrBlock === '0.0.0.0/0',
-    );
-
-    // Check if the route does not exist or if the GatewayId does NOT start with "igw-", which indicates an Internet Gateway
-    expect(internetRoute.GatewayId, 'Route GatewayId is not correct').to.not.match(/^igw-/);
   });
 });
@@ -1,54 +1,26 @@
 import { expect } from 'chai';
 import {
   EC2Client,
-  DescribeInstancesCommand,
   DescribeVpcsCommand,
   DescribeSubnetsCommand,
-  type DescribeInstancesCommandOutput,
   type DescribeVpcsCommandOutput,
   Vpc,
   type DescribeSubnetsCommandOutput,
-  type DescribeInstancesCommandInput,
 } from '@aws-sdk/client-ec2';
-import { BaseConfig } from '../../BaseConfig';
+import { awsClients } from '../../utilities/aws/AwsClients';
+import { getDeploymentContext } from '../../utilities/aws/DeploymentContext';
+import { StackProfiles } from '../../stacks/StackProfiles';
 
 describe('VPC', () => {
-  const { accessKeyId, secretAccessKey, region } = BaseConfig;
-
   let vpcId: string = null;
 
-  const ec2Client: EC2Client = new EC2Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
+  const ec2Client: EC2Client = awsClients.ec2;
 
   before(async () => {
-    const params: DescribeInstancesCommandInput = {
-      Filters: [
-        {
-          Name: 'instance-state-name',
-          Values: ['running'],
-        },
-      ],
-    };
-
-    const instances: DescribeInstancesCommandOutput = await ec2Client.send(new DescribeInstancesCommand(params));
-
-    const deployedInstances: any[] = instances.Reservations.reduce((acc, reservation) => {
-      return acc.concat(
-        reservation.Instances.map((instance) => ({
-          id: instance.InstanceId,
-          type: instance.PublicIpAddress ? 'public' : 'private',
-          os: instance,
-        })),
-      );
-    }, []);
+    const { publicInstance } = await getDeploymentContext(StackProfiles.cloudxinfo).resolve('publicInstance');
 
     // Retrieve VPC ID for an instance
-    vpcId = deployedInstances.find((instance) => instance.type === 'public').os.VpcId;
+    ({ vpcId } = publicInstance);
   });
 
   it('should be deployed in non-default VPC', async () => {
@@ -78,30 +50,4 @@ describe('VPC', () => {
     );
     expect(subnetTags, 'Subnet type is not correct').to.have.members(['Public', 'Private']);
   });
-
-  it('should have CIDR block 10.0.0.0/16', async () => {
-    // Extract relevant information about the VPC
-    const vpcs: DescribeVpcsCommandOutput = await ec2Client.send(
-      new DescribeVpcsCommand({
-        VpcIds: [vpcId],
-      }),
-    );
-
-    expect(vpcs.Vpcs[0].CidrBlock, 'VPC CIDR Block is not correct').to.equal('10.0.0.0/16');
-  });
-
-  it('should have Name and cloudx tags', async () => {
-    // Extract relevant information about the VPC
-    const vpcs: DescribeVpcsCommandOutput = await ec2Client.send(
-      new DescribeVpcsCommand({
-        VpcIds: [vpcId],
-      }),
-    );
-
-    expect(vpcs.Vpcs[0].Tags.find(({ Key }) => Key === 'Name').Value, `Tag 'Name' is not correct`).to.equal(
-      'cloudxinfo/Network/Vpc',
-    );
-
-    expect(vpcs.Vpcs[0].Tags.find(({ Key }) => Key === 'cloudx').Value, `Tag 'cloudx' is not correct`).to.equal('qa');
-  });
 });
@@ -1,6 +1,87 @@
-import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import axios, {
+  type AxiosError,
+  type AxiosInstance,
+  type AxiosInterceptorOptions,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+  isAxiosError,
+} from 'axios';
 import _ from 'lodash';
-import { log } from '../common';
+import { Stream } from 'stream';
+import { BaseConfig } from '../../BaseConfig';
+import { getLogger, redact, type Logger } from '../logger';
+import { retry } from '../retry';
+import { RetryError } from '../errors/RetryError';
+import { ApiRequestError } from '../errors/ApiRequestError';
+import { ResponseSchemaError } from '../errors/ResponseSchemaError';
+import { createTimedAgents, getRequestTimings } from './requestTimings';
+import { type IResponseSchema, ResponseValidator } from './ResponseValidator';
+import { summarize } from '../transcript/CallTranscript';
+import { recordHttpCalls } from '../transcript/transcriptRecorders';
+import { useCassetteAdapter } from '../cassettes/cassetteRecorders';
+
+const logger: Logger = getLogger('api');
+
+export interface IApiClientOptions {
+  // Attempts per request, including the first one
+  maxAttempts?: number;
+  // First backoff delay in ms, doubled after every failed attempt
+  retryDelay?: number;
+  // Successful responses to matching requests are validated against these schemas
+  responseSchemas?: IResponseSchema[];
+}
+
+export const ApiClientDefaults = {
+  timeout: BaseConfig.apiTimeout ?? 30_000,
+  maxAttempts: BaseConfig.apiMaxAttempts ?? 3,
+  retryDelay: 500,
+};
+
+// Methods that can be sent again without changing the outcome
+const IdempotentMethods: string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Rate-limited requests have not been processed and can always be sent again; connection errors,
+ * timeouts and server errors only for idempotent methods. Streamed bodies cannot be sent twice.
+ */
+function isRetryable(method: string, data: unknown, error: unknown): boolean {
+  if (!isAxiosError(error) || data instanceof Stream) return false;
+
+  const status: number | undefined = error.response?.status;
+
+  return status === 429 || (IdempotentMethods.includes(method) && (!status || status >= 500));
+}
+
+// Retry-After is sent in seconds or as an HTTP date
+function getRetryAfter(error: unknown): number | undefined {
+  const header: unknown = isAxiosError(error) ? error.response?.headers['retry-after'] : undefined;
+
+  if (!header) return undefined;
+
+  const seconds: number = Number(header);
+  const delay: number = Number.isFinite(seconds) ? seconds * 1000 : new Date(String(header)).getTime() - Date.now();
+
+  return Number.isFinite(delay) && delay > 0 ? delay : undefined;
+}
+
+function toApiRequestError(error: unknown, method: string, url: string, attempts: number): unknown {
+  if (!isAxiosError(error)) return error;
+
+  const { response }: AxiosError = error;
+
+  return new ApiRequestError({
+    method,
+    url: redact(url),
+    status: response?.status,
+    statusText: response?.statusText,
+    code: error.code,
+    body: summarize(response?.data),
+    headers: response ? { ...response.headers } : undefined,
+    attempts,
+    cause: error,
+  });
+}
 
 export class BaseApiClient {
   #instance: AxiosInstance;
@@ -10,19 +91,95 @@ export class BaseApiClient {
       'Content-Type': 'application/json',
       Accept: '*/*',
     },
+    timeout: ApiClientDefaults.timeout,
   };
 
   readonly defaultConfig: AxiosRequestConfig;
 
-  constructor(axiosConfig: AxiosRequestConfig) {
+  readonly options: Required<IApiClientOptions>;
+
+  #validator: ResponseValidator;
+
+  constructor(axiosConfig: AxiosRequestConfig, options: IApiClientOptions = {}) {
     this.defaultConfig = _.merge({}, this.#baseParams, axiosConfig);
+    this.options = { ...ApiClientDefaults, responseSchemas: [], ...options };
+    this.#validator = new ResponseValidator(this.options.responseSchemas);
+    this.#instance = axios.create(createTimedAgents());
+    this.#instance.interceptors.response.use((response) => {
+      response.timings = getRequestTimings(response.request);
+      return response;
+    });
+    recordHttpCalls(this.#instance);
+    useCassetteAdapter(this.#instance);
+  }
+
+  /**
+   * Registers a request interceptor, e.g. to add a header to every request. Returns a function
+   * that removes it again.
+   */
+  addRequestInterceptor(
+    onFulfilled: (
+      config: InternalAxiosRequestConfig,
+    ) => InternalAxiosRequestConfig | Promise<InternalAxiosRequestConfig>,
+    onRejected?: (error: unknown) => unknown,
+    options?: AxiosInterceptorOptions,
+  ): () => void {
+    const id: number = this.#instance.interceptors.request.use(onFulfilled, onRejected, options);
+
+    return () => this.#instance.interceptors.request.eject(id);
   }
 
+  /**
+   * Registers a response interceptor, which runs for every attempt of a request. Returns a
+   * function that removes it again.
+   */
+  addResponseInterceptor(
+    onFulfilled: (response: AxiosResponse) => AxiosResponse | Promise<AxiosResponse>,
+    onRejected?: (error: unknown) => unknown,
+  ): () => void {
+    const id: number = this.#instance.interceptors.response.use(onFulfilled, onRejected);
+
+    return () => this.#instance.interceptors.response.eject(id);
+  }
+
+  /**
+   * Sends the request, retrying it as described in isRetryable. Failed requests are rejected
+   * with an ApiRequestError, responses that do not match their schema with a ResponseSchemaError.
+   */
   async processor(config: AxiosRequestConfig): Promise<AxiosResponse<any, AxiosRequestConfig>> {
     const axiosConfig = _.merge({}, this.defaultConfig, config);
-    this.#instance = this.#instance ?? axios.create();
-    log(`[API] ${axiosConfig.method} ${axiosConfig.baseURL}${axiosConfig.url}`);
-    return this.#instance.request(axiosConfig);
+    const method: string = (axiosConfig.method ?? 'GET').toUpperCase();
+    const url: string = `${axiosConfig.baseURL ?? ''}${axiosConfig.url}`;
+    let attempts: number = 0;
+    let response: AxiosResponse;
+
+    logger.info(`${method} ${url}`);
+
+    try {
+      response = await retry(
+        (attempt) => {
+          attempts = attempt;
+          return this.#instance.request(axiosConfig);
+        },
+        {
+          description: `${method} ${redact(url)}`,
+          // Every attempt has its own timeout
+          timeout: Infinity,
+          maxAttempts: this.options.maxAttempts,
+          initialDelay: this.options.retryDelay,
+          isRetryable: (error) => isRetryable(method, axiosConfig.data, error),
+          retryAfter: getRetryAfter,
+        },
+      );
+    } catch (error) {
+      throw toApiRequestError(error instanceof RetryError ? error.lastError : error, method, url, attempts);
+    }
+
+    const problems: string[] = this.#validator.validate(method, axiosConfig.url ?? '', response.data);
+
+    if (problems.length) throw new ResponseSchemaError(method, redact(url), problems, response.data);
+
+    return response;
   }
 
   async get(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<any, AxiosRequestConfig>> {
@@ -0,0 +1,123 @@
+import { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import FormData from 'form-data';
+import { createReadStream } from 'fs-extra';
+import { BaseApiClient, type IApiClientOptions } from './BaseApiClient';
+import { cleanupRegistry } from '../cleanup/CleanupRegistry';
+import { ApiRequestError } from '../errors/ApiRequestError';
+import { ResponseSchemaError } from '../errors/ResponseSchemaError';
+
+// MySQL-backed stacks use numeric IDs, DynamoDB-backed stacks use UUID strings
+export type ImageId = number | string;
+
+export interface IImageMetadata {
+  id: ImageId;
+  object_key: string;
+  object_type: string;
+  object_size: number | string;
+  last_modified: number | string;
+  created_at?: number;
+}
+
+export type IUploadedImage = Pick<IImageMetadata, 'id'>;
+
+export interface ISubscription {
+  SubscriptionArn: string;
+  Owner?: string;
+  Protocol: string;
+  Endpoint: string;
+  TopicArn: string;
+}
+
+export interface IInstanceInfo {
+  availability_zone: string;
+  private_ipv4: string;
+  region: string;
+}
+
+export class CloudXAppApiClient extends BaseApiClient {
+  // Cleanup actions for the uploaded images that have not been deleted yet
+  #pendingDeletes: Map<string, () => void> = new Map();
+
+  /**
+   * Pass `responseSchemas: getCloudXAppSchemas(profile)` to validate the responses of the
+   * application API.
+   */
+  constructor(baseURL: string, axiosConfig: AxiosRequestConfig = {}, options: IApiClientOptions = {}) {
+    super({ ...axiosConfig, baseURL }, options);
+  }
+
+  /**
+   * Uploads an image file by path, or an in-memory image under the given file name.
+   * The image is deleted by the cleanup registry after the run unless the test deletes it.
+   */
+  async uploadImage(image: string | Buffer, fileName: string = 'image.jpg'): Promise<AxiosResponse<IUploadedImage>> {
+    const formData: FormData = new FormData();
+
+    if (typeof image === 'string') {
+      formData.append('upfile', createReadStream(image));
+    } else {
+      formData.append('upfile', image, { filename: fileName });
+    }
+
+    let response: AxiosResponse<IUploadedImage>;
+
+    try {
+      response = await this.post('/api/image', formData, { headers: formData.getHeaders() });
+    } catch (error) {
+      // The image is stored even when the response does not match its schema
+      if (error instanceof ResponseSchemaError) this.#registerDelete((error.data as IUploadedImage)?.id);
+
+      throw error;
+    }
+
+    this.#registerDelete(response.data?.id);
+
+    return response;
+  }
+
+  async listImages(): Promise<AxiosResponse<IImageMetadata[]>> {
+    return this.get('/api/image');
+  }
+
+  async getImage(id: ImageId): Promise<AxiosResponse<IImageMetadata>> {
+    return this.get(`/api/image/${id}`);
+  }
+
+  async deleteImage(id: ImageId): Promise<AxiosResponse<string>> {
+    const response: AxiosResponse<string> = await this.delete(`/api/image/${id}`, undefined);
+
+    this.#pendingDeletes.get(String(id))?.();
+    this.#pendingDeletes.delete(String(id));
+
+    return response;
+  }
+
+  #registerDelete(id: ImageId | undefined): void {
+    if (id === undefined || id === null) return;
+
+    this.#pendingDeletes.set(
+      String(id),
+      cleanupRegistry.register(`Delete image ${id}`, async () => {
+        try {
+          await this.deleteImage(id);
+        } catch (error) {
+          // Already deleted through another client
+          if (!(error instanceof ApiRequestError) || error.status !== 404) throw error;
+        }
+      }),
+    );
+  }
+
+  async subscribe(email: string): Promise<AxiosResponse<string>> {
+    return this.post(`/api/notification/${email}`, undefined);
+  }
+
+  async listSubscriptions(): Promise<AxiosResponse<ISubscription[]>> {
+    return this.get('/api/notification');
+  }
+
+  // Served by the cloudxinfo application at the root path
+  async getInstanceInfo(): Promise<AxiosResponse<IInstanceInfo>> {
+    return this.get('/');
+  }
+}
@@ -1,22 +1,40 @@
-import type { AxiosResponse } from 'axios';
+import { type AxiosResponse } from 'axios';
 import { BaseApiClient } from './BaseApiClient';
 import { BaseConfig } from '../../BaseConfig';
-import { retryUntil, wait } from '../common';
+import { retry } from '../retry';
+import { getMailtrapUrl } from '../localMode';
+import type { IEmailInbox, IEmailLookupOptions, INoEmailOptions } from '../email/emailInbox';
+import { expectNoEmail } from '../email/expectNoEmail';
+import { ApiRequestError } from '../errors/ApiRequestError';
 
-const { mailtrapUrl, mailtrapToken, mailtrapAccountId, mailtrapInboxId } = BaseConfig;
+const { mailtrapToken, mailtrapAccountId, mailtrapInboxId } = BaseConfig;
 
 interface IMailtrapMessage {
   id: string;
   to_email: string;
   subject: string;
   sent_at: string;
+  is_read?: boolean;
 }
 
-export class MailtrapApiClient {
-  #client: BaseApiClient = new BaseApiClient({
-    baseURL: `${mailtrapUrl}/accounts/${mailtrapAccountId}`,
-    headers: { 'Api-Token': mailtrapToken },
-  });
+export interface IMailtrapLookupOptions extends IEmailLookupOptions {
+  // Waits until at least this many emails match
+  count?: number;
+  // How matched emails are consumed: marked as read and skipped by consuming lookups, or deleted
+  consumeBy?: 'read' | 'delete';
+}
+
+// Mailtrap rate limits the API; BaseApiClient waits as long as Retry-After asks
+const RATE_LIMIT_ATTEMPTS: number = 5;
+
+export class MailtrapApiClient implements IEmailInbox {
+  #client: BaseApiClient = new BaseApiClient(
+    {
+      baseURL: `${getMailtrapUrl()}/accounts/${mailtrapAccountId}`,
+      headers: { 'Api-Token': mailtrapToken },
+    },
+    { maxAttempts: RATE_LIMIT_ATTEMPTS },
+  );
 
   async getAllMessages(): Promise<AxiosResponse<Array<IMailtrapMessage>>> {
     return this.#client.get(`/inboxes/${mailtrapInboxId}/messages`);
@@ -30,43 +48,150 @@ export class MailtrapApiClient {
     return this.#client.get(`/inboxes/${mailtrapInboxId}/messages/${messageId}/body.html`);
   }
 
-  async getLatestMessageIdBySubject(email: string, subject: string): Promise<string> {
-    let messageId: string;
+  async markMessageAsRead(messageId: string): Promise<AxiosResponse<IMailtrapMessage>> {
+    return this.#client.patch(`/inboxes/${mailtrapInboxId}/messages/${messageId}`, { message: { is_read: true } });
+  }
+
+  async deleteMessage(messageId: string): Promise<AxiosResponse<IMailtrapMessage>> {
+    return this.#client.delete(`/inboxes/${mailtrapInboxId}/messages/${messageId}`, undefined);
+  }
+
+  // Deletes every message in the inbox
+  async cleanInbox(): Promise<AxiosResponse<unknown>> {
+    return this.#client.patch(`/inboxes/${mailtrapInboxId}/clean`, undefined);
+  }
+
+  /**
+   * Waits until `count` messages sent to the address match the subject and the options, and
+   * returns them newest first. With `consume`, consumed messages are skipped and the matched
+   * ones are consumed, so repeating the lookup never returns the same message twice.
+   */
+  async findMessages(
+    email: string,
+    subject: string,
+    options: IMailtrapLookupOptions = {},
+  ): Promise<IMailtrapMessage[]> {
+    const messages: IMailtrapMessage[] = await this.#waitForMessages(email, subject, options);
+
+    await this.#consume(messages, options);
+
+    return messages;
+  }
+
+  async getLatestMessageIdBySubject(
+    email: string,
+    subject: string,
+    options: IMailtrapLookupOptions = {},
+  ): Promise<string> {
+    const [latest] = await this.findMessages(email, subject, { ...options, count: 1 });
+    return latest.id;
+  }
+
+  async getLatestMessageTextBySubject(
+    email: string,
+    subjectValue: string,
+    options: IMailtrapLookupOptions = {},
+  ): Promise<string> {
+    return this.#getLatestMessageBody(email, subjectValue, options, (id) => this.getMessageTextById(id));
+  }
+
+  async getLatestMessageHTMLBySubject(
+    email: string,
+    subjectValue: string,
+    options: IMailtrapLookupOptions = {},
+  ): Promise<string> {
+    return this.#getLatestMessageBody(email, subjectValue, options, (id) => this.getMessageHTMLById(id));
+  }
+
+  async expectNoMessage(email: string, subject: string, options: INoEmailOptions): Promise<void> {
+    return expectNoEmail(email, subject, options, async () => {
+      const allInboxMessages = await this.getAllMessages();
+
+      return this.#hasMatch(
+        allInboxMessages.data.filter((message) => this.#isMatch(message, email, subject, options)),
+        options,
+      );
+    });
+  }
 
-    await wait(5_000);
+  // The body is read before the message is consumed, which may delete it
+  async #getLatestMessageBody(
+    email: string,
+    subject: string,
+    options: IMailtrapLookupOptions,
+    getBody: (messageId: string) => Promise<AxiosResponse<string>>,
+  ): Promise<string> {
+    const messages: IMailtrapMessage[] = await this.#waitForMessages(email, subject, { ...options, count: 1 });
+    const { data: body } = await getBody(messages[0].id);
 
-    await retryUntil(
+    await this.#consume(messages, options);
+
+    return body;
+  }
+
+  async #waitForMessages(
+    email: string,
+    subject: string,
+    { since, matches, consume = false, count = 1, timeout = 60_000 }: IMailtrapLookupOptions,
+  ): Promise<IMailtrapMessage[]> {
+    return retry(
       async () => {
         const allInboxMessages = await this.getAllMessages();
 
-        const filteredMessages = allInboxMessages.data.filter((message) => {
-          return message.to_email.includes(email) && message.subject === subject;
-        });
+        const candidates: IMailtrapMessage[] = allInboxMessages.data.filter(
+          (message) => this.#isMatch(message, email, subject, { since }) && !(consume && message.is_read),
+        );
+
+        const filteredMessages: IMailtrapMessage[] = [];
 
-        if (filteredMessages.length === 0) {
-          throw new Error(`Email sent to "${email}" with subject "${subject}" was not found in Mailtrap`);
+        for (const message of candidates) {
+          if (filteredMessages.length === count) break;
+          if (!matches || matches((await this.getMessageTextById(message.id)).data)) filteredMessages.push(message);
         }
 
-        messageId = filteredMessages[0].id;
+        if (filteredMessages.length < count) {
+          throw new Error(
+            `${count} email(s) sent to "${email}" with subject "${subject}" were expected in Mailtrap, ` +
+              `found ${filteredMessages.length}`,
+          );
+        }
 
-        return true;
+        return filteredMessages;
       },
       {
-        timesToRepeat: 5,
-        timeout: 5_000,
+        description: `Mailtrap message "${subject}"`,
+        timeout,
+        initialDelay: 2_000,
+        // Request errors other than server errors will not go away by retrying
+        isRetryable: (error) => !(error instanceof ApiRequestError) || !error.status || error.status >= 500,
       },
     );
+  }
 
-    return messageId;
+  #isMatch(message: IMailtrapMessage, email: string, subject: string, { since }: IEmailLookupOptions): boolean {
+    return (
+      message.to_email.includes(email) && message.subject === subject && (!since || new Date(message.sent_at) >= since)
+    );
   }
 
-  async getLatestMessageTextBySubject(email: string, subjectValue: string): Promise<AxiosResponse<string>> {
-    const messageId: string = await this.getLatestMessageIdBySubject(email, subjectValue);
-    return this.getMessageTextById(messageId);
+  async #hasMatch(candidates: IMailtrapMessage[], { matches }: IEmailLookupOptions): Promise<boolean> {
+    if (!matches) return candidates.length > 0;
+
+    for (const { id } of candidates) {
+      if (matches((await this.getMessageTextById(id)).data)) return true;
+    }
+
+    return false;
   }
 
-  async getLatestMessageHTMLBySubject(email: string, subjectValue: string): Promise<AxiosResponse<string>> {
-    const messageId: string = await this.getLatestMessageIdBySubject(email, subjectValue);
-    return this.getMessageHTMLById(messageId);
+  async #consume(
+    messages: IMailtrapMessage[],
+    { consume = false, consumeBy = 'read' }: IMailtrapLookupOptions,
+  ): Promise<void> {
+    if (!consume) return;
+
+    await Promise.all(
+      messages.map(({ id }) => (consumeBy === 'delete' ? this.deleteMessage(id) : this.markMessageAsRead(id))),
+    );
   }
 }
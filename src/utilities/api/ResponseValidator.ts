@@ -0,0 +1,71 @@
+import Ajv, { type ErrorObject, type SchemaObject, type ValidateFunction } from 'ajv';
+
+export interface IResponseSchema {
+  method: string;
+  // Path relative to the base URL; {name} matches one path segment, e.g. '/api/image/{id}'
+  path: string;
+  // JSON Schema of the response body
+  schema: SchemaObject;
+}
+
+interface ICompiledSchema {
+  method: string;
+  pattern: RegExp;
+  validate: ValidateFunction;
+}
+
+function toPathPattern(path: string): RegExp {
+  const escaped: string = path.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+
+  return new RegExp(`^${escaped.replace(/\{[^}]+\}/g, '[^/]+')}/?$`);
+}
+
+// '/0/object_key' becomes '$[0].object_key'
+function toJsonPath(instancePath: string): string {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : `${path}.${segment}`), '$');
+}
+
+function formatError({ instancePath, keyword, message, params }: ErrorObject): string {
+  const path: string = toJsonPath(instancePath);
+
+  if (keyword === 'required') return `${path}.${(params as { missingProperty: string }).missingProperty} is required`;
+
+  return `${path} ${message}`;
+}
+
+/**
+ * Validates response bodies against the JSON Schema registered for the method and path of the
+ * request and describes every violation with its JSON path.
+ */
+export class ResponseValidator {
+  #ajv: Ajv = new Ajv({ allErrors: true, strict: false });
+
+  #schemas: ICompiledSchema[];
+
+  constructor(schemas: IResponseSchema[]) {
+    this.#schemas = schemas.map(({ method, path, schema }) => ({
+      method: method.toUpperCase(),
+      pattern: toPathPattern(path),
+      validate: this.#ajv.compile(schema),
+    }));
+  }
+
+  /**
+   * Returns the violations, or an empty list when the body matches the schema or no schema is
+   * registered for the request.
+   */
+  validate(method: string, path: string, body: unknown): string[] {
+    const pathname: string = path.split('?')[0];
+    const schema: ICompiledSchema = this.#schemas.find(
+      (candidate) => candidate.method === method.toUpperCase() && candidate.pattern.test(pathname),
+    );
+
+    if (!schema || schema.validate(body)) return [];
+
+    return (schema.validate.errors ?? []).map(formatError);
+  }
+}
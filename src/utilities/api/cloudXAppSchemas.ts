@@ -0,0 +1,91 @@
+import type { SchemaObject } from 'ajv';
+import type { ImageIdType, ImageMetadataFieldKind, IStackProfile } from '../../stacks/StackProfiles';
+import type { IResponseSchema } from './ResponseValidator';
+
+// Fields every stack returns for an image when the profile does not list them
+const DefaultImageMetadataFields: Record<string, ImageMetadataFieldKind> = {
+  id: 'present',
+  object_key: 'present',
+  object_type: 'present',
+  last_modified: 'present',
+  object_size: 'present',
+};
+
+const NonEmptyString: SchemaObject = { type: 'string', minLength: 1 };
+
+const FieldKindSchemas: Record<ImageMetadataFieldKind, SchemaObject> = {
+  string: NonEmptyString,
+  number: { type: 'number' },
+  // minLength only applies to strings
+  present: { type: ['string', 'number'], minLength: 1 },
+};
+
+const IdTypeSchemas: Record<ImageIdType, SchemaObject> = {
+  // MySQL-backed stacks use auto-increment IDs, DynamoDB-backed stacks UUIDs
+  number: { type: 'integer', minimum: 1 },
+  string: NonEmptyString,
+};
+
+function getImageIdSchema(imageIdType?: ImageIdType): SchemaObject {
+  return imageIdType ? IdTypeSchemas[imageIdType] : FieldKindSchemas.present;
+}
+
+function getImageMetadataSchema({
+  imageIdType,
+  imageMetadataFields = DefaultImageMetadataFields,
+}: Pick<IStackProfile, 'imageIdType' | 'imageMetadataFields'>): SchemaObject {
+  const properties: Record<string, SchemaObject> = Object.fromEntries(
+    Object.entries(imageMetadataFields).map(([field, kind]) => [field, FieldKindSchemas[kind]]),
+  );
+
+  return {
+    type: 'object',
+    required: Object.keys(imageMetadataFields),
+    properties: { ...properties, id: getImageIdSchema(imageIdType) },
+  };
+}
+
+const SubscriptionSchema: SchemaObject = {
+  type: 'object',
+  required: ['SubscriptionArn', 'Protocol', 'Endpoint', 'TopicArn'],
+  properties: {
+    // 'PendingConfirmation' until the subscription is confirmed
+    SubscriptionArn: { type: 'string', pattern: '^(arn:[\\w-]+:sns:|PendingConfirmation$)' },
+    Owner: { type: 'string' },
+    Protocol: NonEmptyString,
+    Endpoint: NonEmptyString,
+    TopicArn: { type: 'string', pattern: '^arn:[\\w-]+:sns:' },
+  },
+};
+
+const InstanceInfoSchema: SchemaObject = {
+  type: 'object',
+  required: ['availability_zone', 'private_ipv4', 'region'],
+  properties: {
+    availability_zone: { type: 'string', pattern: '^[a-z]{2}(-[a-z]+)+-\\d+[a-z]$' },
+    private_ipv4: { type: 'string', pattern: '^\\d{1,3}(\\.\\d{1,3}){3}$' },
+    region: { type: 'string', pattern: '^[a-z]{2}(-[a-z]+)+-\\d+$' },
+  },
+};
+
+/**
+ * Response schemas of the CloudX application API. With a stack profile, the image ID and the
+ * metadata fields are checked with the types of its metadata backend.
+ */
+export function getCloudXAppSchemas(
+  profile: Pick<IStackProfile, 'imageIdType' | 'imageMetadataFields'> = {},
+): IResponseSchema[] {
+  const imageMetadata: SchemaObject = getImageMetadataSchema(profile);
+
+  return [
+    {
+      method: 'POST',
+      path: '/api/image',
+      schema: { type: 'object', required: ['id'], properties: { id: getImageIdSchema(profile.imageIdType) } },
+    },
+    { method: 'GET', path: '/api/image', schema: { type: 'array', items: imageMetadata } },
+    { method: 'GET', path: '/api/image/{id}', schema: imageMetadata },
+    { method: 'GET', path: '/api/notification', schema: { type: 'array', items: SubscriptionSchema } },
+    { method: 'GET', path: '/', schema: InstanceInfoSchema },
+  ];
+}
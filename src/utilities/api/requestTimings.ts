@@ -0,0 +1,114 @@
+import http, { type ClientRequest } from 'http';
+import https from 'https';
+import type { Socket } from 'net';
+
+export interface IRequestTimings {
+  // DNS lookup and TCP connect are 0 when a kept-alive socket is reused
+  dnsMs: number;
+  connectMs: number;
+  // TLS handshake, 0 for plain HTTP
+  tlsMs: number;
+  // From the connected socket (after DNS, connect and TLS) to the first response byte
+  ttfbMs: number;
+  // From creating the request to the whole response body, including all the phases above
+  totalMs: number;
+}
+
+declare module 'axios' {
+  interface AxiosResponse {
+    // Set by BaseApiClient for the last attempt of the request
+    timings?: IRequestTimings;
+  }
+}
+
+interface ISocketTimings {
+  startedAt: number;
+  socketAt?: number;
+  lookupAt?: number;
+  connectAt?: number;
+  secureConnectAt?: number;
+  firstByteAt?: number;
+}
+
+type AddRequest = (request: ClientRequest, options: unknown) => void;
+
+type AgentClass = new (options?: http.AgentOptions) => http.Agent;
+
+const socketTimings: WeakMap<ClientRequest, ISocketTimings> = new WeakMap();
+
+function trackSocket(request: ClientRequest): void {
+  const timings: ISocketTimings = { startedAt: performance.now() };
+
+  socketTimings.set(request, timings);
+
+  request.once('socket', (socket: Socket) => {
+    timings.socketAt = performance.now();
+
+    // A reused socket is already connected and emits none of these
+    if (!socket.connecting) return;
+
+    socket.once('lookup', () => {
+      timings.lookupAt = performance.now();
+    });
+    socket.once('connect', () => {
+      timings.connectAt = performance.now();
+    });
+    socket.once('secureConnect', () => {
+      timings.secureConnectAt = performance.now();
+    });
+  });
+
+  request.once('response', () => {
+    timings.firstByteAt = performance.now();
+  });
+}
+
+// Node calls addRequest for every request sent through the agent, before a socket is assigned
+function withSocketTimings(Agent: AgentClass): AgentClass {
+  const { addRequest } = Agent.prototype as unknown as { addRequest: AddRequest };
+
+  return class extends Agent {
+    addRequest(request: ClientRequest, options: unknown): void {
+      trackSocket(request);
+      addRequest.call(this, request, options);
+    }
+  };
+}
+
+const TimedHttpAgent: AgentClass = withSocketTimings(http.Agent);
+
+const TimedHttpsAgent: AgentClass = withSocketTimings(https.Agent);
+
+export function createTimedAgents(): { httpAgent: http.Agent; httpsAgent: https.Agent } {
+  return {
+    httpAgent: new TimedHttpAgent({ keepAlive: true }),
+    httpsAgent: new TimedHttpsAgent({ keepAlive: true }) as https.Agent,
+  };
+}
+
+/**
+ * Returns the phases of a request sent through one of the timed agents; `request` is the
+ * ClientRequest axios exposes as `response.request`. Undefined for other requests, e.g. replayed ones.
+ */
+export function getRequestTimings(
+  request: unknown,
+  finishedAt: number = performance.now(),
+): IRequestTimings | undefined {
+  const timings: ISocketTimings | undefined = socketTimings.get(request as ClientRequest);
+
+  if (!timings) return undefined;
+
+  const { startedAt, socketAt = startedAt, lookupAt, connectAt, secureConnectAt, firstByteAt = finishedAt } = timings;
+  const connectedFrom: number = lookupAt ?? socketAt;
+  // The request is only sent once the socket is connected, so TTFB does not count DNS, connect and TLS again
+  const sentAt: number = secureConnectAt ?? connectAt ?? socketAt;
+  const round = (ms: number): number => Math.max(0, Math.round(ms));
+
+  return {
+    dnsMs: lookupAt ? round(lookupAt - socketAt) : 0,
+    connectMs: connectAt ? round(connectAt - connectedFrom) : 0,
+    tlsMs: secureConnectAt && connectAt ? round(secureConnectAt - connectAt) : 0,
+    ttfbMs: round(firstByteAt - sentAt),
+    totalMs: round(finishedAt - startedAt),
+  };
+}
@@ -0,0 +1,158 @@
+import { CloudFormationClient } from '@aws-sdk/client-cloudformation';
+import { CloudTrailClient } from '@aws-sdk/client-cloudtrail';
+import { CloudWatchClient } from '@aws-sdk/client-cloudwatch';
+import { CloudWatchLogsClient } from '@aws-sdk/client-cloudwatch-logs';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { EC2Client } from '@aws-sdk/client-ec2';
+import { IAMClient } from '@aws-sdk/client-iam';
+import { LambdaClient } from '@aws-sdk/client-lambda';
+import { RDSClient } from '@aws-sdk/client-rds';
+import { S3Client } from '@aws-sdk/client-s3';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { BaseConfig } from '../../BaseConfig';
+import { isLocalMode, LocalModeDefaults } from '../localMode';
+import { type IMiddlewareClient, recordAwsCalls } from '../transcript/transcriptRecorders';
+import { useCassetteMiddleware } from '../cassettes/cassetteRecorders';
+
+export interface IAwsClientConfig {
+  region: string;
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  };
+  retryMode?: string;
+  maxAttempts?: number;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
+
+export type AwsServiceName = keyof typeof BaseConfig.awsServiceEndpoints;
+
+interface IDestroyableClient extends IMiddlewareClient {
+  destroy(): void;
+}
+
+type AwsClientConstructor<T extends IDestroyableClient> = new (config: IAwsClientConfig) => T;
+
+export class AwsClients {
+  #clients: Map<AwsServiceName, IDestroyableClient> = new Map();
+
+  #regionalClients: Map<string, AwsClients> = new Map();
+
+  readonly #config: typeof BaseConfig;
+
+  constructor(config: typeof BaseConfig = BaseConfig) {
+    this.#config = config;
+  }
+
+  get cloudFormation(): CloudFormationClient {
+    return this.#getClient('cloudFormation', CloudFormationClient);
+  }
+
+  get cloudTrail(): CloudTrailClient {
+    return this.#getClient('cloudTrail', CloudTrailClient);
+  }
+
+  get cloudWatch(): CloudWatchClient {
+    return this.#getClient('cloudWatch', CloudWatchClient);
+  }
+
+  get cloudWatchLogs(): CloudWatchLogsClient {
+    return this.#getClient('cloudWatchLogs', CloudWatchLogsClient);
+  }
+
+  get dynamoDB(): DynamoDBClient {
+    return this.#getClient('dynamoDB', DynamoDBClient);
+  }
+
+  get ec2(): EC2Client {
+    return this.#getClient('ec2', EC2Client);
+  }
+
+  get iam(): IAMClient {
+    return this.#getClient('iam', IAMClient);
+  }
+
+  get lambda(): LambdaClient {
+    return this.#getClient('lambda', LambdaClient);
+  }
+
+  get rds(): RDSClient {
+    return this.#getClient('rds', RDSClient);
+  }
+
+  get s3(): S3Client {
+    return this.#getClient('s3', S3Client);
+  }
+
+  get sns(): SNSClient {
+    return this.#getClient('sns', SNSClient);
+  }
+
+  get sqs(): SQSClient {
+    return this.#getClient('sqs', SQSClient);
+  }
+
+  /**
+   * Clients for resources outside the configured region, e.g. a topic taken from an ARN.
+   */
+  forRegion(region: string): AwsClients {
+    if (!region || region === this.clientConfig().region) return this;
+
+    if (!this.#regionalClients.has(region)) {
+      this.#regionalClients.set(region, new AwsClients({ ...this.#config, region }));
+    }
+
+    return this.#regionalClients.get(region);
+  }
+
+  clientConfig(service?: AwsServiceName): IAwsClientConfig {
+    const { sessionToken, awsRetryMode, awsMaxAttempts, awsServiceEndpoints, awsS3ForcePathStyle } = this.#config;
+    const local: boolean = isLocalMode(this.#config);
+    // Emulators accept any static keys, so local mode never goes through the default provider chain
+    const defaults = local ? LocalModeDefaults : undefined;
+    const accessKeyId: string = this.#config.accessKeyId || defaults?.accessKeyId;
+    const secretAccessKey: string = this.#config.secretAccessKey || defaults?.secretAccessKey;
+
+    // Fall back to the default provider chain when no static keys are configured
+    const credentials = accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey, sessionToken } : undefined;
+
+    const endpoint: string =
+      (service && awsServiceEndpoints[service]) || this.#config.awsEndpoint || defaults?.awsEndpoint;
+
+    // Emulators serve every bucket from a single host, so S3 has to use path-style URLs
+    const forcePathStyle: boolean = awsS3ForcePathStyle ?? local;
+
+    return {
+      region: this.#config.region || defaults?.region,
+      credentials,
+      retryMode: awsRetryMode || 'standard',
+      maxAttempts: awsMaxAttempts,
+      endpoint: endpoint || undefined,
+      forcePathStyle: service === 's3' ? forcePathStyle : undefined,
+    };
+  }
+
+  destroy(): void {
+    this.#clients.forEach((client) => client.destroy());
+    this.#clients.clear();
+    this.#regionalClients.forEach((clients) => clients.destroy());
+    this.#regionalClients.clear();
+  }
+
+  #getClient<T extends IDestroyableClient>(name: AwsServiceName, Client: AwsClientConstructor<T>): T {
+    if (!this.#clients.has(name)) {
+      const client: T = new Client(this.clientConfig(name));
+
+      recordAwsCalls(client);
+      useCassetteMiddleware(client);
+      this.#clients.set(name, client);
+    }
+
+    return this.#clients.get(name) as T;
+  }
+}
+
+export const awsClients: AwsClients = new AwsClients();
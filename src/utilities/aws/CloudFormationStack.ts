@@ -0,0 +1,118 @@
+import { DescribeStacksCommand, paginateListStackResources, type Stack } from '@aws-sdk/client-cloudformation';
+import { awsClients, type AwsClients } from './AwsClients';
+
+export interface IStackResource {
+  logicalId: string;
+  physicalId: string;
+  type: string;
+}
+
+export class CloudFormationStack {
+  readonly name: string;
+
+  #resources: Promise<IStackResource[]>;
+
+  #description: Promise<Stack>;
+
+  readonly #clients: AwsClients;
+
+  constructor(name: string, clients: AwsClients = awsClients) {
+    this.name = name;
+    this.#clients = clients;
+  }
+
+  async getResources(): Promise<IStackResource[]> {
+    if (this.#resources === undefined) {
+      this.#resources = this.#listResources();
+      this.#resources.catch(() => {
+        this.#resources = undefined;
+      });
+    }
+
+    return this.#resources;
+  }
+
+  async getOutputs(): Promise<Record<string, string>> {
+    const { Outputs = [] } = await this.#getDescription();
+
+    return Outputs.reduce(
+      (outputs, { OutputKey, OutputValue }) => ({ ...outputs, [OutputKey]: OutputValue }),
+      {} as Record<string, string>,
+    );
+  }
+
+  // The stack ARN, which also identifies the account and region of the deployment
+  async getStackId(): Promise<string> {
+    const { StackId } = await this.#getDescription();
+
+    return StackId;
+  }
+
+  async getPhysicalIds(type: string): Promise<string[]> {
+    const resources: IStackResource[] = await this.getResources();
+
+    return resources.filter((resource) => resource.type === type).map(({ physicalId }) => physicalId);
+  }
+
+  /**
+   * CDK appends a hash to the logical IDs it generates, so `logicalId` matches either the full ID
+   * or its beginning (e.g. `ImageStoreBucket` matches `ImageStoreBucketF57D958E`).
+   */
+  async getPhysicalId(logicalId: string, type: string): Promise<string> {
+    const resources: IStackResource[] = await this.getResources();
+    const matches: IStackResource[] = resources.filter(
+      (resource) => resource.type === type && resource.logicalId.startsWith(logicalId),
+    );
+    const exact: IStackResource = matches.find((resource) => resource.logicalId === logicalId);
+
+    if (exact) return exact.physicalId;
+
+    if (!matches.length) {
+      throw new Error(`No ${type} with logical ID ${logicalId} found in CloudFormation stack ${this.name}`);
+    }
+
+    if (matches.length > 1) {
+      throw new Error(
+        `Logical ID ${logicalId} is ambiguous in CloudFormation stack ${this.name}: ${matches
+          .map((resource) => resource.logicalId)
+          .join(', ')}`,
+      );
+    }
+
+    return matches[0].physicalId;
+  }
+
+  async #listResources(): Promise<IStackResource[]> {
+    const resources: IStackResource[] = [];
+
+    for await (const page of paginateListStackResources(
+      { client: this.#clients.cloudFormation },
+      { StackName: this.name },
+    )) {
+      page.StackResourceSummaries.filter(
+        ({ PhysicalResourceId, ResourceStatus }) => PhysicalResourceId && ResourceStatus !== 'DELETE_COMPLETE',
+      ).forEach(({ LogicalResourceId, PhysicalResourceId, ResourceType }) =>
+        resources.push({ logicalId: LogicalResourceId, physicalId: PhysicalResourceId, type: ResourceType }),
+      );
+    }
+
+    return resources;
+  }
+
+  async #getDescription(): Promise<Stack> {
+    if (this.#description === undefined) {
+      this.#description = this.#describeStack();
+      this.#description.catch(() => {
+        this.#description = undefined;
+      });
+    }
+
+    return this.#description;
+  }
+
+  async #describeStack(): Promise<Stack> {
+    const { Stacks } = await this.#clients.cloudFormation.send(new DescribeStacksCommand({ StackName: this.name }));
+
+    return Stacks[0];
+  }
+}
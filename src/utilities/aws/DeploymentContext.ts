@@ -0,0 +1,489 @@
+import { DescribeInstancesCommand, type Filter, type Instance, type Tag } from '@aws-sdk/client-ec2';
+import { DescribeDBInstancesCommand, paginateDescribeDBInstances, type DBInstance } from '@aws-sdk/client-rds';
+import { ListBucketsCommand } from '@aws-sdk/client-s3';
+import { paginateListTopics } from '@aws-sdk/client-sns';
+import { paginateListQueues } from '@aws-sdk/client-sqs';
+import { paginateListTables } from '@aws-sdk/client-dynamodb';
+import {
+  GetFunctionConfigurationCommand,
+  paginateListFunctions,
+  type FunctionConfiguration,
+} from '@aws-sdk/client-lambda';
+import { awsClients, type AwsClients } from './AwsClients';
+import { CloudFormationStack } from './CloudFormationStack';
+import { getLogger, type Logger } from '../logger';
+import { getAppBaseUrl } from '../localMode';
+import { DeploymentResourceNotFoundError } from '../errors/DeploymentResourceNotFoundError';
+
+const logger: Logger = getLogger('deployment');
+
+export type DeployedInstanceType = 'public' | 'private';
+
+export interface IDeployedInstance {
+  id: string;
+  // Undefined for an instance of the stack whose logical ID is not configured for either role
+  type?: DeployedInstanceType;
+  instanceType: string;
+  publicIpAddress?: string;
+  publicDnsName?: string;
+  privateIpAddress: string;
+  vpcId: string;
+  availabilityZone: string;
+  tags: Tag[];
+  instance: Instance;
+}
+
+export interface IRdsInstance {
+  identifier: string;
+  endpoint: string;
+  port: number;
+  instance: DBInstance;
+}
+
+export interface IDeploymentResources {
+  instances: IDeployedInstance[];
+  publicInstance: IDeployedInstance;
+  privateInstance: IDeployedInstance;
+  appBaseUrl: string;
+  bucketName: string;
+  rdsInstance: IRdsInstance;
+  topicArn: string;
+  queueUrl: string;
+  tableName: string;
+  lambdaFunction: FunctionConfiguration;
+  stackOutputs: Record<string, string>;
+}
+
+export type DeploymentResourceName = keyof IDeploymentResources;
+
+export interface IDeploymentPrefixes {
+  // Prefix of the Name tag of the EC2 instances, e.g. cloudxinfo/ for cloudxinfo/PublicInstance/Instance
+  instance?: string;
+  bucket?: string;
+  rdsInstance?: string;
+  topic?: string;
+  queue?: string;
+  table?: string;
+  lambdaFunction?: string;
+}
+
+export type DeploymentLookupKey = Exclude<keyof IDeploymentPrefixes, 'instance'>;
+
+export type IDeploymentLogicalIds = Partial<Record<DeploymentLookupKey | `${DeployedInstanceType}Instance`, string>>;
+
+// Stack output keys; the value of an output is the physical ID of the resource, or the URL of the application
+export type IDeploymentOutputKeys = Partial<Record<DeploymentLookupKey | 'appBaseUrl', string>>;
+
+export interface IDeploymentOptions {
+  // CloudFormation stack that owns the resources; name prefixes are only used when it cannot resolve them
+  stackName?: string;
+  outputKeys?: IDeploymentOutputKeys;
+  logicalIds?: IDeploymentLogicalIds;
+  prefixes?: IDeploymentPrefixes;
+}
+
+// CDK appends a hash to the logical IDs it generates, see CloudFormationStack.getPhysicalId
+function matchesLogicalId(logicalId: string, configured: string): boolean {
+  return Boolean(configured && logicalId?.startsWith(configured));
+}
+
+function toDeployedInstance(instance: Instance, type: DeployedInstanceType): IDeployedInstance {
+  return {
+    id: instance.InstanceId,
+    type,
+    instanceType: instance.InstanceType,
+    publicIpAddress: instance.PublicIpAddress,
+    publicDnsName: instance.PublicDnsName,
+    privateIpAddress: instance.PrivateIpAddress,
+    vpcId: instance.VpcId,
+    availabilityZone: instance.Placement?.AvailabilityZone,
+    tags: instance.Tags ?? [],
+    instance,
+  };
+}
+
+export class DeploymentContext {
+  #resolved: Map<DeploymentResourceName, Promise<unknown>> = new Map();
+
+  readonly #outputKeys: IDeploymentOutputKeys;
+
+  readonly #logicalIds: IDeploymentLogicalIds;
+
+  readonly #prefixes: IDeploymentPrefixes;
+
+  readonly #stack: CloudFormationStack;
+
+  readonly #clients: AwsClients;
+
+  constructor(
+    { stackName, outputKeys = {}, logicalIds = {}, prefixes = {} }: IDeploymentOptions = {},
+    clients: AwsClients = awsClients,
+  ) {
+    this.#outputKeys = outputKeys;
+    this.#logicalIds = logicalIds;
+    this.#prefixes = prefixes;
+    this.#stack = stackName ? new CloudFormationStack(stackName, clients) : undefined;
+    this.#clients = clients;
+  }
+
+  async resolve<K extends DeploymentResourceName>(...names: K[]): Promise<Pick<IDeploymentResources, K>> {
+    const results = await Promise.allSettled(names.map((name) => this.#get(name)));
+
+    const missing: string[] = results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map(({ reason }) => (reason instanceof Error ? reason.message : String(reason)));
+
+    if (missing.length) throw new DeploymentResourceNotFoundError(missing);
+
+    return names.reduce(
+      (acc, name, index) => ({ ...acc, [name]: (results[index] as PromiseFulfilledResult<unknown>).value }),
+      {} as Pick<IDeploymentResources, K>,
+    );
+  }
+
+  async #get<K extends DeploymentResourceName>(name: K): Promise<IDeploymentResources[K]> {
+    if (!this.#resolved.has(name)) {
+      const lookup: Promise<unknown> = this.#lookup(name);
+      // Failed lookups are not cached so that the next suite gets a fresh attempt
+      lookup.catch(() => this.#resolved.delete(name));
+      this.#resolved.set(name, lookup);
+    }
+
+    return this.#resolved.get(name) as Promise<IDeploymentResources[K]>;
+  }
+
+  async #lookup(name: DeploymentResourceName): Promise<unknown> {
+    switch (name) {
+      case 'instances':
+        return this.#findInstances();
+      case 'publicInstance':
+        return this.#findInstance('public');
+      case 'privateInstance':
+        return this.#findInstance('private');
+      case 'appBaseUrl':
+        return this.#findAppBaseUrl();
+      case 'bucketName':
+        return this.#findResource(
+          'bucket',
+          'S3 bucket',
+          'AWS::S3::Bucket',
+          (bucketName) => bucketName,
+          (prefix) => this.#findBucketName(prefix),
+        );
+      case 'rdsInstance':
+        return this.#findResource(
+          'rdsInstance',
+          'MySQL RDS instance',
+          'AWS::RDS::DBInstance',
+          (identifier) => this.#getRdsInstance(identifier),
+          (prefix) => this.#findRdsInstance(prefix),
+        );
+      case 'topicArn':
+        return this.#findResource(
+          'topic',
+          'SNS topic',
+          'AWS::SNS::Topic',
+          (topicArn) => topicArn,
+          (prefix) => this.#findTopicArn(prefix),
+        );
+      case 'queueUrl':
+        return this.#findResource(
+          'queue',
+          'SQS queue',
+          'AWS::SQS::Queue',
+          (queueUrl) => queueUrl,
+          (prefix) => this.#findQueueUrl(prefix),
+        );
+      case 'tableName':
+        return this.#findResource(
+          'table',
+          'DynamoDB table',
+          'AWS::DynamoDB::Table',
+          (tableName) => tableName,
+          (prefix) => this.#findTableName(prefix),
+        );
+      case 'lambdaFunction':
+        return this.#findResource(
+          'lambdaFunction',
+          'Lambda function',
+          'AWS::Lambda::Function',
+          (functionName) => this.#getLambdaFunction(functionName),
+          (prefix) => this.#findLambdaFunction(prefix),
+        );
+      case 'stackOutputs':
+        if (!this.#stack) throw new Error('Stack outputs: no CloudFormation stack is configured for this deployment');
+
+        return this.#stack.getOutputs();
+      default:
+        throw new Error(`Unknown deployment resource: ${String(name)}`);
+    }
+  }
+
+  /**
+   * Returns the value of the configured stack output, or undefined when the stack does not export it
+   * so that the resource is looked up by its logical ID instead.
+   */
+  async #findOutput(key: keyof IDeploymentOutputKeys, resource: string): Promise<string | undefined> {
+    const outputKey: string = this.#outputKeys[key];
+
+    if (!this.#stack || !outputKey) return undefined;
+
+    try {
+      const outputs: Record<string, string> = await this.#get('stackOutputs');
+
+      if (!outputs[outputKey]) logger.debug(`${resource}: stack ${this.#stack.name} has no output ${outputKey}`);
+
+      return outputs[outputKey] || undefined;
+    } catch (error) {
+      logger.warn(
+        `${resource}: ${error instanceof Error ? error.message : String(error)}. Ignoring output ${outputKey}`,
+      );
+
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads the physical ID from the configured stack output, or maps the configured logical ID to it
+   * through the CloudFormation stack, and falls back to name prefix matching when the stack, or the
+   * resource in it, cannot be found.
+   */
+  async #findResource<T>(
+    key: DeploymentLookupKey,
+    resource: string,
+    type: string,
+    fromPhysicalId: (physicalId: string) => T | Promise<T>,
+    fromPrefix: (prefix: string) => Promise<T>,
+  ): Promise<T> {
+    const logicalId: string = this.#logicalIds[key];
+    const prefix: string = this.#prefixes[key];
+    const output: string = await this.#findOutput(key, resource);
+
+    if (output) return fromPhysicalId(output);
+
+    if (this.#stack && logicalId) {
+      try {
+        return await fromPhysicalId(await this.#stack.getPhysicalId(logicalId, type));
+      } catch (error) {
+        if (!prefix) throw error;
+
+        logger.warn(
+          `${resource}: ${error instanceof Error ? error.message : String(error)}. Falling back to prefix ${prefix}`,
+        );
+      }
+    }
+
+    if (!prefix) throw new Error(`${resource}: no logical ID or name prefix is configured for this deployment`);
+
+    return fromPrefix(prefix);
+  }
+
+  /**
+   * Maps the physical IDs of the configured public and private instances to their role. An instance
+   * is only ever identified by its logical ID, never by whether it has a public IP address.
+   */
+  async #getInstanceRoles(): Promise<Map<string, DeployedInstanceType>> {
+    const roles: Map<string, DeployedInstanceType> = new Map();
+
+    for (const type of ['public', 'private'] as const) {
+      const logicalId: string = this.#logicalIds[`${type}Instance`];
+
+      if (logicalId) roles.set(await this.#stack.getPhysicalId(logicalId, 'AWS::EC2::Instance'), type);
+    }
+
+    return roles;
+  }
+
+  /**
+   * Only the instances created by the stack are considered, so stray instances in the account are
+   * ignored. When the stack cannot be read, the instances are matched by the prefix of their Name tag.
+   */
+  async #findInstances(): Promise<IDeployedInstance[]> {
+    const prefix: string = this.#prefixes.instance;
+
+    if (this.#stack) {
+      try {
+        return await this.#findStackInstances();
+      } catch (error) {
+        if (!prefix) throw error;
+
+        logger.warn(
+          `EC2 instances: ${error instanceof Error ? error.message : String(error)}. Falling back to prefix ${prefix}`,
+        );
+      }
+    }
+
+    if (!prefix) {
+      throw new Error('EC2 instances: no CloudFormation stack or name prefix is configured for this deployment');
+    }
+
+    return this.#findInstancesByName(prefix);
+  }
+
+  async #findStackInstances(): Promise<IDeployedInstance[]> {
+    const instanceIds: string[] = await this.#stack.getPhysicalIds('AWS::EC2::Instance');
+
+    if (!instanceIds.length) throw new Error(`No EC2 instances found in CloudFormation stack ${this.#stack.name}`);
+
+    const roles: Map<string, DeployedInstanceType> = await this.#getInstanceRoles();
+    const instances: Instance[] = await this.#describeRunningInstances({ Name: 'instance-id', Values: instanceIds });
+
+    return instances.map((instance) => toDeployedInstance(instance, roles.get(instance.InstanceId)));
+  }
+
+  /**
+   * CloudFormation tags every instance it creates with its logical ID, so the roles are still told
+   * apart by logical ID, never by whether an instance has a public IP address.
+   */
+  async #findInstancesByName(prefix: string): Promise<IDeployedInstance[]> {
+    const instances: Instance[] = await this.#describeRunningInstances({ Name: 'tag:Name', Values: [`${prefix}*`] });
+
+    if (!instances.length) throw new Error(`No running EC2 instances found with prefix: ${prefix}`);
+
+    return instances.map((instance) => {
+      const logicalId: string = instance.Tags?.find(({ Key }) => Key === 'aws:cloudformation:logical-id')?.Value;
+      const type: DeployedInstanceType = (['public', 'private'] as const).find((role) =>
+        matchesLogicalId(logicalId, this.#logicalIds[`${role}Instance`]),
+      );
+
+      return toDeployedInstance(instance, type);
+    });
+  }
+
+  async #describeRunningInstances(filter: Filter): Promise<Instance[]> {
+    const data = await this.#clients.ec2.send(
+      new DescribeInstancesCommand({ Filters: [{ Name: 'instance-state-name', Values: ['running'] }, filter] }),
+    );
+
+    return data.Reservations.flatMap((reservation) => reservation.Instances);
+  }
+
+  async #findInstance(type: DeployedInstanceType): Promise<IDeployedInstance> {
+    const logicalId: string = this.#logicalIds[`${type}Instance`];
+
+    if (!logicalId) throw new Error(`${type} EC2 instance: no logical ID is configured for this deployment`);
+
+    const instances: IDeployedInstance[] = await this.#get('instances');
+    const instance: IDeployedInstance = instances.find((deployed) => deployed.type === type);
+
+    if (!instance) throw new Error(`The ${type} EC2 instance ${logicalId} is not running`);
+
+    return instance;
+  }
+
+  async #findAppBaseUrl(): Promise<string> {
+    const baseUrl: string = getAppBaseUrl();
+
+    if (baseUrl) return baseUrl;
+
+    const output: string = await this.#findOutput('appBaseUrl', 'Application URL');
+
+    if (output) return output.replace(/\/+$/, '');
+
+    const { publicIpAddress } = await this.#get('publicInstance');
+
+    return `http://${publicIpAddress}`;
+  }
+
+  async #findBucketName(prefix: string): Promise<string> {
+    const { Buckets } = await this.#clients.s3.send(new ListBucketsCommand({}));
+    const bucketName: string = Buckets.find((bucket) => bucket.Name.startsWith(prefix))?.Name;
+
+    if (!bucketName) throw new Error(`No S3 bucket found with prefix: ${prefix}`);
+
+    return bucketName;
+  }
+
+  async #getRdsInstance(identifier: string): Promise<IRdsInstance> {
+    const { DBInstances } = await this.#clients.rds.send(
+      new DescribeDBInstancesCommand({ DBInstanceIdentifier: identifier }),
+    );
+
+    return toRdsInstance(DBInstances[0]);
+  }
+
+  async #findRdsInstance(prefix: string): Promise<IRdsInstance> {
+    for await (const page of paginateDescribeDBInstances({ client: this.#clients.rds }, {})) {
+      const instance: DBInstance = page.DBInstances.find((rds) => rds.DBInstanceIdentifier.includes(prefix));
+
+      if (instance) return toRdsInstance(instance);
+    }
+
+    throw new Error(`No MySQL RDS instance found with prefix: ${prefix}`);
+  }
+
+  async #findTopicArn(prefix: string): Promise<string> {
+    for await (const page of paginateListTopics({ client: this.#clients.sns }, {})) {
+      const topic = page.Topics.find(({ TopicArn }) => TopicArn.includes(prefix));
+
+      if (topic) return topic.TopicArn;
+    }
+
+    throw new Error(`No SNS topic found with prefix: ${prefix}`);
+  }
+
+  async #findQueueUrl(prefix: string): Promise<string> {
+    for await (const page of paginateListQueues({ client: this.#clients.sqs }, {})) {
+      const queueUrl: string = page.QueueUrls?.find((url) => url.includes(prefix));
+
+      if (queueUrl) return queueUrl;
+    }
+
+    throw new Error(`No SQS queue found with prefix: ${prefix}`);
+  }
+
+  async #findTableName(prefix: string): Promise<string> {
+    for await (const page of paginateListTables({ client: this.#clients.dynamoDB }, {})) {
+      const tableName: string = page.TableNames.find((table) => table.includes(prefix));
+
+      if (tableName) return tableName;
+    }
+
+    throw new Error(`No DynamoDB table found with prefix: ${prefix}`);
+  }
+
+  async #getLambdaFunction(functionName: string): Promise<FunctionConfiguration> {
+    return this.#clients.lambda.send(new GetFunctionConfigurationCommand({ FunctionName: functionName }));
+  }
+
+  async #findLambdaFunction(prefix: string): Promise<FunctionConfiguration> {
+    for await (const page of paginateListFunctions({ client: this.#clients.lambda }, {})) {
+      const lambdaFunction = page.Functions.find(({ FunctionName }) => FunctionName.includes(prefix));
+
+      if (lambdaFunction) return lambdaFunction;
+    }
+
+    throw new Error(`No Lambda function found with prefix: ${prefix}`);
+  }
+}
+
+function toRdsInstance(instance: DBInstance): IRdsInstance {
+  return {
+    identifier: instance.DBInstanceIdentifier,
+    endpoint: instance.Endpoint?.Address,
+    port: instance.Endpoint?.Port,
+    instance,
+  };
+}
+
+const deploymentContexts: Map<string, DeploymentContext> = new Map();
+
+function sortedEntries(record: object = {}): [string, string][] {
+  return Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+}
+
+export function getDeploymentContext(options: IDeploymentOptions = {}): DeploymentContext {
+  const { stackName, outputKeys, logicalIds, prefixes } = options;
+  const key: string = JSON.stringify([
+    stackName,
+    sortedEntries(outputKeys),
+    sortedEntries(logicalIds),
+    sortedEntries(prefixes),
+  ]);
+
+  if (!deploymentContexts.has(key)) {
+    deploymentContexts.set(key, new DeploymentContext({ stackName, outputKeys, logicalIds, prefixes }));
+  }
+
+  return deploymentContexts.get(key);
+}
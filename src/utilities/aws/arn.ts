@@ -0,0 +1,19 @@
+export interface IArn {
+  partition: string;
+  service: string;
+  // Empty for global services such as IAM
+  region: string;
+  accountId: string;
+  resource: string;
+}
+
+/**
+ * Splits arn:{partition}:{service}:{region}:{account}:{resource}; the resource keeps its own colons.
+ */
+export function parseArn(arn: string): IArn {
+  const [prefix, partition, service, region, accountId, ...resource] = arn?.split(':') ?? [];
+
+  if (prefix !== 'arn' || !partition || !service || !resource.length) throw new Error(`"${arn}" is not an ARN`);
+
+  return { partition, service, region, accountId, resource: resource.join(':') };
+}
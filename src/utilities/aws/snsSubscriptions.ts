@@ -0,0 +1,68 @@
+import {
+  ConfirmSubscriptionCommand,
+  GetSubscriptionAttributesCommand,
+  type GetSubscriptionAttributesCommandOutput,
+  type SNSClient,
+} from '@aws-sdk/client-sns';
+import { awsClients, type AwsClients } from './AwsClients';
+import { type IArn, parseArn } from './arn';
+import { registerSubscriptionCleanup } from '../cleanup/cleanupActions';
+import { getEmailInbox, type IEmailInbox } from '../email/emailInbox';
+import { parseSubscriptionConfirmation, type ISubscriptionConfirmation } from '../email/notificationParser';
+import { getLogger, type Logger } from '../logger';
+
+const logger: Logger = getLogger('sns');
+
+export const SUBSCRIPTION_CONFIRMATION_SUBJECT: string = 'AWS Notification - Subscription Confirmation';
+
+export interface IConfirmedSubscription {
+  subscriptionArn: string;
+  // GetSubscriptionAttributes result, e.g. Protocol, Endpoint, TopicArn, PendingConfirmation
+  attributes: Record<string, string>;
+}
+
+export interface IConfirmEmailSubscriptionOptions {
+  inbox?: IEmailInbox;
+  clients?: AwsClients;
+}
+
+/**
+ * Waits for the confirmation email of an email subscription that has already been requested,
+ * confirms it in the region and partition of the topic and registers its removal after the run.
+ */
+export async function confirmEmailSubscription(
+  topicArn: string,
+  email: string,
+  { inbox, clients = awsClients }: IConfirmEmailSubscriptionOptions = {},
+): Promise<IConfirmedSubscription> {
+  const { service, region }: IArn = parseArn(topicArn);
+
+  if (service !== 'sns') throw new Error(`"${topicArn}" is not an SNS topic ARN`);
+
+  const emailInbox: IEmailInbox = inbox ?? (await getEmailInbox());
+
+  const emailHtml: string = await emailInbox.getLatestMessageHTMLBySubject(email, SUBSCRIPTION_CONFIRMATION_SUBJECT);
+  const confirmation: ISubscriptionConfirmation = parseSubscriptionConfirmation(emailHtml);
+
+  if (confirmation.topicArn !== topicArn) {
+    throw new Error(
+      `The latest confirmation email sent to "${email}" is for the topic ${confirmation.topicArn}, not ${topicArn}`,
+    );
+  }
+
+  // The topic can live outside the configured region
+  const snsClient: SNSClient = clients.forRegion(region).sns;
+
+  const { SubscriptionArn: subscriptionArn } = await snsClient.send(
+    new ConfirmSubscriptionCommand({ TopicArn: topicArn, Token: confirmation.token }),
+  );
+
+  registerSubscriptionCleanup(subscriptionArn, clients);
+  logger.info(`Confirmed subscription ${subscriptionArn}`);
+
+  const { Attributes: attributes = {} }: GetSubscriptionAttributesCommandOutput = await snsClient.send(
+    new GetSubscriptionAttributesCommand({ SubscriptionArn: subscriptionArn }),
+  );
+
+  return { subscriptionArn, attributes };
+}
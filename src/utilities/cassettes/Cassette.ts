@@ -0,0 +1,149 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, relative } from 'path';
+import { Readable } from 'stream';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import type { CallKind } from '../transcript/CallTranscript';
+import { CassetteError } from '../errors/CassetteError';
+
+export interface ISerializedError {
+  name: string;
+  message: string;
+  [property: string]: unknown;
+}
+
+export interface ICassetteInteraction {
+  kind: CallKind;
+  // 'GET host/path' for HTTP calls, 'SNSClient PublishCommand' for AWS calls
+  key: string;
+  // Redacted summary of the request body or command input
+  request?: string;
+  response?: unknown;
+  error?: ISerializedError;
+}
+
+interface ICassetteFile {
+  recordedAt: string;
+  interactions: ICassetteInteraction[];
+}
+
+const IsoTimestamp: RegExp = /\b\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})/g;
+
+function isTagged(value: object, tag: string): boolean {
+  return Object.keys(value).length === 1 && tag in value;
+}
+
+/**
+ * Converts a response to JSON-safe data: dates and binary data are tagged so that they can be
+ * restored when the cassette is replayed.
+ */
+export function toCassetteValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Uint8Array) return { $binary: Buffer.from(value).toString('base64') };
+  if (Array.isArray(value)) return value.map(toCassetteValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toCassetteValue(entry)]));
+  }
+
+  return value;
+}
+
+/**
+ * Restores a recorded response. Timestamps are moved forward by `shiftMs`, so that the
+ * responses look as recent as they were when recorded, e.g. for lookups of emails sent after
+ * the test started.
+ */
+export function fromCassetteValue(value: unknown, shiftMs: number = 0): unknown {
+  const shift = (timestamp: string): Date => new Date(new Date(timestamp).getTime() + shiftMs);
+
+  if (typeof value === 'string') return value.replace(IsoTimestamp, (timestamp) => shift(timestamp).toISOString());
+  if (Array.isArray(value)) return value.map((entry) => fromCassetteValue(entry, shiftMs));
+  if (!value || typeof value !== 'object') return value;
+
+  if (isTagged(value, '$date')) return shift((value as { $date: string }).$date);
+  if (isTagged(value, '$binary')) return Buffer.from((value as { $binary: string }).$binary, 'base64');
+  if (isTagged(value, '$stream')) {
+    return sdkStreamMixin(Readable.from([Buffer.from((value as { $stream: string }).$stream, 'base64')]));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fromCassetteValue(entry, shiftMs)]));
+}
+
+/**
+ * The HTTP and AWS traffic of one test, or of the hooks that run outside tests.
+ */
+export class Cassette {
+  readonly path: string;
+
+  readonly recordedAt: Date;
+
+  readonly recorded: boolean;
+
+  #interactions: ICassetteInteraction[];
+
+  #replayed: Set<ICassetteInteraction> = new Set();
+
+  constructor(path: string, recordedAt: Date = new Date(), interactions: ICassetteInteraction[] = []) {
+    this.path = path;
+    this.recordedAt = recordedAt;
+    this.recorded = interactions.length > 0;
+    this.#interactions = interactions;
+  }
+
+  // A test that was never recorded gets an empty cassette, which fails on the first request
+  static load(path: string): Cassette {
+    if (!existsSync(path)) return new Cassette(path);
+
+    const { recordedAt, interactions } = JSON.parse(readFileSync(path, 'utf8')) as ICassetteFile;
+
+    return new Cassette(path, new Date(recordedAt), interactions);
+  }
+
+  get size(): number {
+    return this.#interactions.length;
+  }
+
+  add(interaction: ICassetteInteraction): void {
+    this.#interactions.push(interaction);
+  }
+
+  /**
+   * Returns the first interaction not replayed yet with the same key and request, or else the
+   * first one with the same key, since requests can contain values generated by the test.
+   */
+  take(key: string, request: string | undefined): ICassetteInteraction {
+    const pending: ICassetteInteraction[] = this.#interactions.filter(
+      (interaction) => interaction.key === key && !this.#replayed.has(interaction),
+    );
+    const interaction: ICassetteInteraction = pending.find((candidate) => candidate.request === request) ?? pending[0];
+
+    if (!interaction) {
+      const cassettePath: string = relative(process.cwd(), this.path);
+
+      if (!this.recorded) throw new CassetteError(key, cassettePath, 'the cassette has not been recorded');
+
+      const recorded: number = this.#interactions.filter((candidate) => candidate.key === key).length;
+
+      throw new CassetteError(
+        key,
+        cassettePath,
+        recorded
+          ? `all ${recorded} recorded interaction(s) with this request have been replayed`
+          : 'the request was not recorded',
+      );
+    }
+
+    this.#replayed.add(interaction);
+
+    return interaction;
+  }
+
+  // Cassettes without interactions are not written
+  save(): void {
+    if (!this.#interactions.length) return;
+
+    const file: ICassetteFile = { recordedAt: this.recordedAt.toISOString(), interactions: this.#interactions };
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,113 @@
+import { basename, join, relative } from 'path';
+import { BaseConfig } from '../../BaseConfig';
+import { Cassette, fromCassetteValue, type ICassetteInteraction, type ISerializedError } from './Cassette';
+import type { CallKind } from '../transcript/CallTranscript';
+import { getLogger, type Logger } from '../logger';
+
+const logger: Logger = getLogger('cassettes');
+
+export type CassetteMode = typeof BaseConfig.cassetteMode;
+
+export interface IReplayedInteraction {
+  response?: unknown;
+  error?: ISerializedError;
+}
+
+const MAX_FILE_NAME_LENGTH: number = 120;
+
+function toFileName(title: string): string {
+  return title
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .toLowerCase();
+}
+
+/**
+ * Returns e.g. cassettes/sns_sqs/sns.sqs.deployment.validation/<test title>.json for a test of
+ * src/tests/sns_sqs/sns.sqs.deployment.validation.spec.ts.
+ */
+export function getCassettePath(directory: string, specFile: string, titlePath: string[]): string {
+  const testsDirectory: string = join(process.cwd(), 'src', 'tests');
+  const specPath: string = specFile.startsWith(testsDirectory)
+    ? relative(testsDirectory, specFile)
+    : basename(specFile);
+
+  return join(directory, specPath.replace(/\.spec\.ts$|\.ts$/, ''), `${toFileName(titlePath.join(' '))}.json`);
+}
+
+/**
+ * Records the HTTP and AWS traffic into cassettes, or serves it from them instead of the
+ * network. Calls made during a test, including its beforeEach and afterEach hooks, use the
+ * cassette of the test; calls made by before/after hooks and the cleanup use a cassette shared
+ * by the whole run.
+ */
+export class CassettePlayer {
+  readonly mode: CassetteMode;
+
+  readonly directory: string;
+
+  #hooks: Cassette;
+
+  #test: Cassette | undefined;
+
+  // Time between recording and replaying each cassette
+  #shifts: WeakMap<Cassette, number> = new WeakMap();
+
+  constructor(mode: CassetteMode = BaseConfig.cassetteMode, directory: string = BaseConfig.cassetteDir) {
+    this.mode = mode;
+    this.directory = directory;
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  insertTest(specFile: string, titlePath: string[]): void {
+    this.#test = this.#insert(getCassettePath(this.directory, specFile, titlePath));
+  }
+
+  ejectTest(): void {
+    if (this.mode === 'record') this.#test?.save();
+
+    this.#test = undefined;
+  }
+
+  ejectHooks(): void {
+    if (this.mode === 'record') this.#hooks?.save();
+
+    this.#hooks = undefined;
+  }
+
+  record(interaction: ICassetteInteraction): void {
+    this.#current.add(interaction);
+  }
+
+  // Throws a CassetteError when the request has not been recorded
+  replay(kind: CallKind, key: string, request: string | undefined): IReplayedInteraction {
+    const cassette: Cassette = this.#current;
+    const { response, error } = cassette.take(key, request);
+
+    logger.debug(`Replayed ${kind} ${key}`);
+
+    return { response: fromCassetteValue(response, this.#shifts.get(cassette)), error };
+  }
+
+  get #current(): Cassette {
+    if (this.#test) return this.#test;
+
+    if (!this.#hooks) this.#hooks = this.#insert(join(this.directory, 'hooks.json'));
+
+    return this.#hooks;
+  }
+
+  #insert(path: string): Cassette {
+    const cassette: Cassette = this.mode === 'replay' ? Cassette.load(path) : new Cassette(path);
+
+    this.#shifts.set(cassette, this.mode === 'replay' ? Date.now() - cassette.recordedAt.getTime() : 0);
+
+    return cassette;
+  }
+}
+
+export const cassettePlayer: CassettePlayer = new CassettePlayer();
@@ -0,0 +1,186 @@
+import type { InitializeMiddleware } from '@aws-sdk/types';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import axios, {
+  type AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+  isAxiosError,
+} from 'axios';
+import { Readable } from 'stream';
+import { toCassetteValue, type ISerializedError } from './Cassette';
+import { cassettePlayer, type CassettePlayer, type IReplayedInteraction } from './CassettePlayer';
+import { summarize } from '../transcript/CallTranscript';
+import type { IMiddlewareClient } from '../transcript/transcriptRecorders';
+import { redact } from '../logger';
+
+interface IRecordedHttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, unknown>;
+  data: unknown;
+}
+
+// Captured before any instance is switched to the cassette adapter
+const networkAdapter: AxiosAdapter = axios.getAdapter(axios.defaults.adapter);
+
+// Request objects, configs and stacks are not needed to rebuild the error
+const UnrecordedErrorProperties: string[] = ['config', 'request', 'response', 'stack', 'cause'];
+
+function serializeError(error: unknown): ISerializedError {
+  if (!(error instanceof Error)) return { name: 'Error', message: String(error) };
+
+  // AWS SDK errors carry $fault, $metadata and the service error fields, axios errors a code
+  const { name, message, ...properties } = error as Error & Record<string, unknown>;
+  const recorded: Record<string, unknown> = Object.fromEntries(
+    Object.entries(properties).filter(([property]) => !UnrecordedErrorProperties.includes(property)),
+  );
+
+  return { ...(toCassetteValue(recorded) as Record<string, unknown>), name, message };
+}
+
+function deserializeError({ name, message, ...properties }: ISerializedError): Error {
+  return Object.assign(new Error(message), properties, { name });
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk as Uint8Array));
+
+  return Buffer.concat(chunks);
+}
+
+function isStream(value: unknown): value is Readable {
+  return value instanceof Readable;
+}
+
+function toHttpResponse(
+  { status, statusText, headers, data }: IRecordedHttpResponse,
+  config: InternalAxiosRequestConfig,
+): AxiosResponse {
+  return { status, statusText, headers: AxiosHeaders.from(headers as Record<string, string>), data, config };
+}
+
+// Same outcome as the axios settle step: statuses rejected by validateStatus become errors
+function settle(response: AxiosResponse, config: InternalAxiosRequestConfig): AxiosResponse {
+  if (!config.validateStatus || config.validateStatus(response.status)) return response;
+
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    undefined,
+    response,
+  );
+}
+
+/**
+ * Switches the axios instance to an adapter that records its traffic into the current cassette,
+ * or replays it from there. Does nothing when cassettes are off.
+ */
+export function useCassetteAdapter(instance: AxiosInstance, player: CassettePlayer = cassettePlayer): void {
+  if (!player.enabled) return;
+
+  // eslint-disable-next-line no-param-reassign
+  instance.defaults.adapter = async (config) => {
+    const url: URL = new URL(axios.getUri(config));
+    const key: string = redact(`${config.method?.toUpperCase()} ${url.host}${url.pathname}`);
+    const request: string | undefined = summarize(config.data);
+
+    if (player.mode === 'replay') {
+      const { response, error }: IReplayedInteraction = player.replay('http', key, request);
+
+      if (error) throw deserializeError(error);
+
+      return settle(toHttpResponse(response as IRecordedHttpResponse, config), config);
+    }
+
+    // Streams are read once for the cassette and handed to the caller as a new stream
+    const record = async (response: AxiosResponse): Promise<AxiosResponse> => {
+      const data: unknown = isStream(response.data) ? await readStream(response.data) : response.data;
+
+      player.record({
+        kind: 'http',
+        key,
+        request,
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: { ...response.headers },
+          data: isStream(response.data) ? { $stream: (data as Buffer).toString('base64') } : toCassetteValue(data),
+        },
+      });
+
+      return { ...response, data: isStream(response.data) ? Readable.from([data]) : data };
+    };
+
+    try {
+      return await record(await networkAdapter(config));
+    } catch (error) {
+      if (isAxiosError(error) && error.response) {
+        error.response = await record(error.response);
+      } else {
+        player.record({ kind: 'http', key, request, error: serializeError(error) });
+      }
+
+      throw error;
+    }
+  };
+}
+
+/**
+ * Adds a middleware to the SDK client that records the output of every command into the current
+ * cassette, or replays it without sending the request. Does nothing when cassettes are off.
+ */
+export function useCassetteMiddleware(client: IMiddlewareClient, player: CassettePlayer = cassettePlayer): void {
+  if (!player.enabled) return;
+
+  const middleware: InitializeMiddleware<any, any> = (next, context) => async (args) => {
+    const key: string = `${context.clientName} ${context.commandName}`;
+    const request: string | undefined = summarize(args.input);
+
+    if (player.mode === 'replay') {
+      const { response, error }: IReplayedInteraction = player.replay('aws', key, request);
+
+      if (error) throw deserializeError(error);
+
+      return { output: response, response: undefined };
+    }
+
+    try {
+      const result = await next(args);
+      const { Body: body, ...output } = result.output ?? {};
+
+      // Streamed bodies, e.g. S3 GetObject, are read once for the cassette and handed on as a new stream
+      if (body && typeof body.transformToByteArray === 'function') {
+        const bytes: Buffer = Buffer.from((await body.transformToByteArray()) as Uint8Array);
+
+        player.record({
+          kind: 'aws',
+          key,
+          request,
+          response: {
+            ...(toCassetteValue(output) as Record<string, unknown>),
+            Body: { $stream: bytes.toString('base64') },
+          },
+        });
+
+        return { ...result, output: { ...output, Body: sdkStreamMixin(Readable.from([bytes])) } };
+      }
+
+      player.record({ kind: 'aws', key, request, response: toCassetteValue(result.output) });
+
+      return result;
+    } catch (error) {
+      player.record({ kind: 'aws', key, request, error: serializeError(error) });
+
+      throw error;
+    }
+  };
+
+  // After the transcript middleware, so that replayed commands are still listed in the report
+  client.middlewareStack.add(middleware, { step: 'initialize', name: 'cassette', priority: 'low', override: true });
+}
@@ -0,0 +1,55 @@
+import { getLogger, type Logger } from '../logger';
+import type { ICleanupFailure } from '../errors/CleanupError';
+
+const logger: Logger = getLogger('cleanup');
+
+export type CleanupAction = () => unknown;
+
+interface ICleanupEntry {
+  description: string;
+  action: CleanupAction;
+}
+
+/**
+ * Collects undo actions for the resources created by tests. The root hooks run them after the
+ * whole run, newest first, whether the tests passed or not.
+ */
+export class CleanupRegistry {
+  #entries: ICleanupEntry[] = [];
+
+  get size(): number {
+    return this.#entries.length;
+  }
+
+  /**
+   * Returns a function that removes the action again, for resources the test deletes itself.
+   */
+  register(description: string, action: CleanupAction): () => void {
+    const entry: ICleanupEntry = { description, action };
+
+    this.#entries.push(entry);
+
+    return () => {
+      this.#entries = this.#entries.filter((registered) => registered !== entry);
+    };
+  }
+
+  async runAll(): Promise<ICleanupFailure[]> {
+    const failures: ICleanupFailure[] = [];
+
+    while (this.#entries.length) {
+      const { description, action } = this.#entries.pop();
+
+      try {
+        await action();
+        logger.info(description);
+      } catch (error) {
+        failures.push({ description, error });
+      }
+    }
+
+    return failures;
+  }
+}
+
+export const cleanupRegistry: CleanupRegistry = new CleanupRegistry();
@@ -0,0 +1,25 @@
+import { rm } from 'fs/promises';
+import { NotFoundException, UnsubscribeCommand } from '@aws-sdk/client-sns';
+import { awsClients, type AwsClients } from '../aws/AwsClients';
+import { parseArn } from '../aws/arn';
+import { cleanupRegistry } from './CleanupRegistry';
+
+export function registerFileCleanup(path: string): () => void {
+  return cleanupRegistry.register(`Remove file ${path}`, () => rm(path, { force: true }));
+}
+
+/**
+ * Unsubscribes in the region of the subscription. Subscriptions that were already removed,
+ * e.g. through the unsubscribe link, are not reported.
+ */
+export function registerSubscriptionCleanup(subscriptionArn: string, clients: AwsClients = awsClients): () => void {
+  return cleanupRegistry.register(`Unsubscribe ${subscriptionArn}`, async () => {
+    try {
+      await clients
+        .forRegion(parseArn(subscriptionArn).region)
+        .sns.send(new UnsubscribeCommand({ SubscriptionArn: subscriptionArn }));
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) throw error;
+    }
+  });
+}
@@ -0,0 +1,23 @@
+import { logger } from './logger';
+
+export function getCliOption(name: string): string | undefined {
+  const flag = `--${name}`;
+  const index: number = process.argv.findIndex((arg) => arg === flag || arg.startsWith(`${flag}=`));
+
+  if (index === -1) return undefined;
+
+  const arg: string = process.argv[index];
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : process.argv[index + 1];
+}
+
+// Shorthand for specs; utilities log through their own module logger
+export function log(message: string): void {
+  logger.info(message);
+}
+
+export async function wait(timeout: number): Promise<unknown> {
+  return new Promise((resolve) => {
+    // eslint-disable-next-line no-promise-executor-return
+    return setTimeout(resolve, timeout);
+  });
+}
@@ -0,0 +1,122 @@
+// 'core' is checked for every run, the other areas only when a spec that needs them is loaded
+export type ConfigArea = 'core' | 'iam' | 'rds' | 'serverless' | 'mailtrap';
+
+export interface IConfigSettingOptions {
+  // Test areas that cannot run without the setting
+  areas?: ConfigArea[];
+  // Local mode provides a default for the setting
+  optionalInLocalMode?: boolean;
+  // The value is redacted from the logs
+  secret?: boolean;
+}
+
+export interface IConfigSetting extends IConfigSettingOptions {
+  name: string;
+  isSet: boolean;
+  problem?: string;
+}
+
+interface IStringOptions extends IConfigSettingOptions {
+  validate?: (value: string) => string | undefined;
+}
+
+interface IIntegerOptions extends IConfigSettingOptions {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Reads typed values from environment variables and records every setting it reads, together
+ * with the reason its value is invalid. Nothing is thrown here so that all problems can be
+ * reported at once before the first test runs.
+ */
+export class ConfigReader {
+  readonly settings: IConfigSetting[] = [];
+
+  // Values of the settings read with `secret`
+  readonly secrets: string[] = [];
+
+  readonly #env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.#env = env;
+  }
+
+  string(name: string, { validate, ...options }: IStringOptions = {}): string | undefined {
+    return this.#read(name, options, (value) => {
+      const problem: string = validate?.(value);
+
+      if (problem) throw new Error(problem);
+
+      return value;
+    });
+  }
+
+  integer(name: string, { min, max, ...options }: IIntegerOptions = {}): number | undefined {
+    return this.#read(name, options, (value) => {
+      const number = Number(value);
+
+      if (!/^-?\d+$/.test(value) || !Number.isSafeInteger(number)) throw new Error('must be an integer');
+      if (min !== undefined && number < min) throw new Error(`must be at least ${min}`);
+      if (max !== undefined && number > max) throw new Error(`must be at most ${max}`);
+
+      return number;
+    });
+  }
+
+  port(name: string, options: IConfigSettingOptions = {}): number | undefined {
+    return this.integer(name, { ...options, min: 1, max: 65_535 });
+  }
+
+  boolean(name: string, options: IConfigSettingOptions = {}): boolean | undefined {
+    return this.#read(name, options, (value) => {
+      if (['true', '1'].includes(value.toLowerCase())) return true;
+      if (['false', '0'].includes(value.toLowerCase())) return false;
+
+      throw new Error('must be true or false');
+    });
+  }
+
+  url(name: string, options: IConfigSettingOptions = {}): string | undefined {
+    return this.#read(name, options, (value) => {
+      let protocol: string;
+
+      try {
+        ({ protocol } = new URL(value));
+      } catch {
+        throw new Error('must be an absolute URL');
+      }
+
+      if (!['http:', 'https:'].includes(protocol)) throw new Error('must be an http or https URL');
+
+      return value.replace(/\/+$/, '');
+    });
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[], options: IConfigSettingOptions = {}): T | undefined {
+    return this.#read(name, options, (value) => {
+      if (!values.includes(value as T)) throw new Error(`must be one of: ${values.join(', ')}`);
+
+      return value as T;
+    });
+  }
+
+  #read<T>(name: string, options: IConfigSettingOptions, parse: (value: string) => T): T | undefined {
+    const value: string = this.#env[name]?.trim();
+    const setting: IConfigSetting = { name, ...options, isSet: Boolean(value) };
+
+    this.settings.push(setting);
+
+    if (!value) return undefined;
+
+    if (options.secret) this.secrets.push(value);
+
+    try {
+      return parse(value);
+    } catch (error) {
+      setting.problem = `${name}="${value}" ${error instanceof Error ? error.message : String(error)}`;
+
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import * as dotenv from 'dotenv';
+
+export interface IConfigLayers {
+  // Environment profile selected by ENV, e.g. dev, qa or prod
+  profile: string | undefined;
+  // Profile names that have a file in the config directory
+  profiles: string[];
+  // Files that contributed values, from the lowest to the highest precedence
+  files: string[];
+  values: NodeJS.ProcessEnv;
+}
+
+const DEFAULTS_FILE: string = 'default.env';
+
+function readEnvFile(path: string): Record<string, string> {
+  return existsSync(path) ? dotenv.parse(readFileSync(path)) : {};
+}
+
+/**
+ * Merges the configuration layers, each one overriding the previous:
+ * config/default.env, config/{ENV}.env, .env and the process environment.
+ */
+export function loadConfigLayers(
+  env: NodeJS.ProcessEnv = process.env,
+  configDir: string = join(process.cwd(), 'config'),
+  dotenvFile: string = join(process.cwd(), '.env'),
+): IConfigLayers {
+  const profiles: string[] = existsSync(configDir)
+    ? readdirSync(configDir)
+        .filter((file) => file.endsWith('.env') && file !== DEFAULTS_FILE)
+        .map((file) => basename(file, '.env'))
+    : [];
+
+  const defaultsFile: string = join(configDir, DEFAULTS_FILE);
+  const defaults: Record<string, string> = readEnvFile(defaultsFile);
+  const local: Record<string, string> = readEnvFile(dotenvFile);
+
+  const profile: string = env.ENV || local.ENV || defaults.ENV || undefined;
+  const profileFile: string = profile && profiles.includes(profile) ? join(configDir, `${profile}.env`) : undefined;
+
+  const files: string[] = [defaultsFile, profileFile, dotenvFile].filter((file) => file && existsSync(file));
+
+  return {
+    profile,
+    profiles,
+    files,
+    values: {
+      ...defaults,
+      ...(profileFile ? readEnvFile(profileFile) : {}),
+      ...local,
+      ...env,
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { basename, dirname, relative } from 'path';
+import { BaseConfig, BaseConfigSettings, ConfigLayers } from '../../BaseConfig';
+import type { ConfigArea, IConfigSetting } from './ConfigReader';
+import type { IConfigLayers } from './configLayers';
+import { isLocalMode } from '../localMode';
+import { ConfigValidationError } from '../errors/ConfigValidationError';
+
+// Test areas needed by the specs of each src/tests/* directory, on top of 'core'
+const SpecDirectoryAreas: Record<string, ConfigArea[]> = {
+  // The EXPECTED_* settings are checked by the spec, only for the expectation files that run
+  expectations: ['iam'],
+  metadata: ['rds'],
+  rds: ['rds'],
+  serverless: ['serverless', 'mailtrap'],
+  sns_sqs: ['mailtrap'],
+};
+
+export function getConfigAreas(
+  specFiles: string[],
+  emailInbox: typeof BaseConfig.emailInbox = BaseConfig.emailInbox,
+  cassetteMode: typeof BaseConfig.cassetteMode = BaseConfig.cassetteMode,
+): ConfigArea[] {
+  // Replayed specs get their responses from the cassettes, so no setting is required
+  if (cassetteMode === 'replay') return [];
+
+  const areas: Set<ConfigArea> = new Set(['core']);
+
+  specFiles.forEach((file) => {
+    const directory: string = basename(dirname(relative(process.cwd(), file)));
+
+    (SpecDirectoryAreas[directory] ?? []).forEach((area) => areas.add(area));
+  });
+
+  // The Mailtrap settings are not used when the emails go to the SMTP inbox
+  if (emailInbox !== 'mailtrap') areas.delete('mailtrap');
+
+  return [...areas];
+}
+
+export function getConfigProblems(
+  areas: ConfigArea[],
+  settings: IConfigSetting[] = BaseConfigSettings,
+  local: boolean = isLocalMode(BaseConfig),
+): string[] {
+  const invalid: string[] = settings.filter(({ problem }) => problem).map(({ problem }) => problem);
+
+  const missing: string[] = settings
+    .filter(({ isSet, optionalInLocalMode }) => !isSet && !(local && optionalInLocalMode))
+    .map(({ name, areas: required = [] }) => ({ name, needed: required.filter((area) => areas.includes(area)) }))
+    .filter(({ needed }) => needed.length)
+    .map(({ name, needed }) =>
+      needed.includes('core') ? `${name} is required` : `${name} is required for the ${needed.join(', ')} tests`,
+    );
+
+  return [...missing, ...invalid];
+}
+
+/**
+ * Throws a single error listing every missing or invalid setting for the given test areas.
+ */
+export function validateBaseConfig(areas: ConfigArea[]): void {
+  const problems: string[] = getConfigProblems(areas);
+
+  if (problems.length) throw new ConfigValidationError(problems);
+}
+
+export function formatConfigSummary(
+  config: typeof BaseConfig = BaseConfig,
+  layers: IConfigLayers = ConfigLayers,
+): string {
+  const files: string = layers.files.map((file) => relative(process.cwd(), file)).join(', ') || 'none';
+
+  return [
+    `Environment profile: ${layers.profile ?? 'none'}`,
+    `account: ${config.accountId ?? 'not set'}`,
+    `region: ${config.region ?? 'not set'}`,
+    `mode: ${config.mode}`,
+    `cassettes: ${config.cassetteMode}`,
+    `config files: ${files}`,
+  ].join(', ');
+}
@@ -0,0 +1,149 @@
+import type { AddressInfo } from 'net';
+import { type ParsedMail, simpleParser } from 'mailparser';
+import { SMTPServer, type SMTPServerDataStream, type SMTPServerSession } from 'smtp-server';
+import { getLogger, type Logger } from '../logger';
+import { retry } from '../retry';
+import type { IEmailInbox, IEmailLookupOptions, INoEmailOptions } from './emailInbox';
+import { expectNoEmail } from './expectNoEmail';
+
+const logger: Logger = getLogger('smtp-inbox');
+
+export interface ISmtpEmailInboxOptions {
+  host?: string;
+  port?: number;
+}
+
+export interface IReceivedEmail {
+  // Envelope recipients, which also covers BCC
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  receivedAt: Date;
+}
+
+/**
+ * In-process SMTP server that keeps the received emails in memory. Point the AWS emulator or any
+ * other sender at it to run the email flows without a third-party inbox.
+ */
+export class SmtpEmailInbox implements IEmailInbox {
+  readonly messages: IReceivedEmail[] = [];
+
+  readonly #options: ISmtpEmailInboxOptions;
+
+  #server: SMTPServer;
+
+  constructor(options: ISmtpEmailInboxOptions = {}) {
+    this.#options = options;
+  }
+
+  get port(): number {
+    return (this.#server?.server.address() as AddressInfo)?.port;
+  }
+
+  async start(): Promise<void> {
+    const { host = '127.0.0.1', port = 2525 } = this.#options;
+
+    this.#server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['AUTH', 'STARTTLS'],
+      logger: false,
+      onData: (stream, session, callback) => {
+        this.#receive(stream, session).then(() => callback(), callback);
+      },
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.#server.once('error', reject);
+      this.#server.listen(port, host, () => {
+        this.#server.off('error', reject);
+        resolve();
+      });
+    });
+
+    logger.info(`Listening on ${host}:${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.#server?.server.listening) return;
+
+    await new Promise<void>((resolve) => {
+      this.#server.close(resolve);
+    });
+  }
+
+  async getLatestMessageTextBySubject(
+    email: string,
+    subject: string,
+    options: IEmailLookupOptions = {},
+  ): Promise<string> {
+    return (await this.#waitForMessage(email, subject, options)).text;
+  }
+
+  async getLatestMessageHTMLBySubject(
+    email: string,
+    subject: string,
+    options: IEmailLookupOptions = {},
+  ): Promise<string> {
+    return (await this.#waitForMessage(email, subject, options)).html;
+  }
+
+  async expectNoMessage(email: string, subject: string, options: INoEmailOptions): Promise<void> {
+    const { since, matches = () => true } = options;
+
+    return expectNoEmail(email, subject, options, () =>
+      Promise.resolve(
+        this.messages.some((message) => this.#isMatch(message, email, subject, since) && matches(message.text)),
+      ),
+    );
+  }
+
+  #isMatch(
+    { to, subject: messageSubject, receivedAt }: IReceivedEmail,
+    email: string,
+    subject: string,
+    since?: Date,
+  ): boolean {
+    return to.includes(email) && messageSubject === subject && (!since || receivedAt >= since);
+  }
+
+  async #receive(stream: SMTPServerDataStream, session: SMTPServerSession): Promise<void> {
+    const parsed: ParsedMail = await simpleParser(stream);
+
+    this.messages.push({
+      to: session.envelope.rcptTo.map(({ address }) => address),
+      subject: parsed.subject ?? '',
+      text: parsed.text ?? '',
+      html: parsed.html || '',
+      receivedAt: new Date(),
+    });
+  }
+
+  async #waitForMessage(
+    email: string,
+    subject: string,
+    { since, matches = () => true, consume = false, timeout = 60_000 }: IEmailLookupOptions,
+  ): Promise<IReceivedEmail> {
+    return retry(
+      () => {
+        const message: IReceivedEmail = this.messages.findLast(
+          (candidate) => this.#isMatch(candidate, email, subject, since) && matches(candidate.text),
+        );
+
+        if (!message) {
+          return Promise.reject(new Error(`Email sent to "${email}" with subject "${subject}" was not received`));
+        }
+
+        if (consume) this.messages.splice(this.messages.indexOf(message), 1);
+
+        return Promise.resolve(message);
+      },
+      {
+        description: `SMTP inbox message "${subject}"`,
+        timeout,
+        initialDelay: 500,
+        maxDelay: 2_000,
+      },
+    );
+  }
+}
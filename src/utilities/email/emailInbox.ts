@@ -0,0 +1,68 @@
+import { randomUUID } from 'node:crypto';
+import { BaseConfig } from '../../BaseConfig';
+import { MailtrapApiClient } from '../api/MailtrapApiClient';
+import { cleanupRegistry } from '../cleanup/CleanupRegistry';
+import { SmtpEmailInbox } from './SmtpEmailInbox';
+
+export interface IEmailLookupOptions {
+  // Ignores emails sent earlier, e.g. notifications left over from previous tests
+  since?: Date;
+  // Called with the text body of every email that matches the address and subject
+  matches?: (text: string) => boolean;
+  // Removes the matched email so that later lookups cannot return it again
+  consume?: boolean;
+  timeout?: number;
+}
+
+export interface INoEmailOptions extends Pick<IEmailLookupOptions, 'since' | 'matches'> {
+  // How long to watch the inbox, in ms
+  within: number;
+  interval?: number;
+}
+
+export interface IEmailInbox {
+  // Both wait for the newest matching email and resolve with its body
+  getLatestMessageTextBySubject(email: string, subject: string, options?: IEmailLookupOptions): Promise<string>;
+  getLatestMessageHTMLBySubject(email: string, subject: string, options?: IEmailLookupOptions): Promise<string>;
+  // Resolves when no matching email arrived during the whole window; inbox errors reject
+  expectNoMessage(email: string, subject: string, options: INoEmailOptions): Promise<void>;
+}
+
+// Any address is accepted by the SMTP inbox
+const SMTP_INBOX_EMAIL: string = 'inbox+%s@example.com';
+
+let inbox: Promise<IEmailInbox>;
+
+export function generateInboxEmail(): string {
+  const email: string = BaseConfig.mailtrapEmail ?? (BaseConfig.emailInbox === 'smtp' ? SMTP_INBOX_EMAIL : undefined);
+  return email.replace('%s', randomUUID());
+}
+
+async function startSmtpInbox(): Promise<IEmailInbox> {
+  const smtpInbox: SmtpEmailInbox = new SmtpEmailInbox({
+    host: BaseConfig.smtpInboxHost,
+    port: BaseConfig.smtpInboxPort,
+  });
+
+  await smtpInbox.start();
+  cleanupRegistry.register('Stop SMTP inbox', () => smtpInbox.stop());
+
+  return smtpInbox;
+}
+
+/**
+ * Returns the inbox selected by EMAIL_INBOX. The SMTP inbox is started on the first call and
+ * shared by all specs, so call this before the action that sends the email.
+ */
+export async function getEmailInbox(): Promise<IEmailInbox> {
+  if (BaseConfig.emailInbox === 'smtp') {
+    inbox ??= startSmtpInbox().catch((error) => {
+      inbox = undefined;
+      throw error;
+    });
+
+    return inbox;
+  }
+
+  return new MailtrapApiClient();
+}
@@ -0,0 +1,31 @@
+import { wait } from '../common';
+import { getLogger, type Logger } from '../logger';
+import { UnexpectedEmailError } from '../errors/UnexpectedEmailError';
+import type { INoEmailOptions } from './emailInbox';
+
+const logger: Logger = getLogger('email');
+
+/**
+ * Polls `hasMatch` until the window has passed. Errors from `hasMatch`, e.g. an unreachable inbox,
+ * are not caught, so only a reachable inbox without a matching email passes.
+ */
+export async function expectNoEmail(
+  email: string,
+  subject: string,
+  { within, interval = 5_000 }: INoEmailOptions,
+  hasMatch: () => Promise<boolean>,
+): Promise<void> {
+  const deadline: number = Date.now() + within;
+
+  for (;;) {
+    if (await hasMatch()) throw new UnexpectedEmailError(email, subject, within);
+
+    const remaining: number = deadline - Date.now();
+
+    if (remaining <= 0) break;
+
+    await wait(Math.min(interval, remaining));
+  }
+
+  logger.info(`No email sent to "${email}" with subject "${subject}" arrived within ${within}ms`);
+}
@@ -0,0 +1,123 @@
+import { EmailParseError } from '../errors/EmailParseError';
+
+export type ImageEventType = 'upload' | 'delete';
+
+export interface IImageEventNotification {
+  event_type: ImageEventType;
+  object_key: string;
+  object_type: string;
+  last_modified: string;
+  object_size: number;
+  download_link: string;
+  unsubscribeUrl: string;
+}
+
+export interface ISubscriptionConfirmation {
+  confirmUrl: string;
+  token: string;
+  topicArn: string;
+}
+
+const ImageEventTypes: ImageEventType[] = ['upload', 'delete'];
+
+const HtmlEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Mailtrap returns both the text and the HTML body; HTML is reduced to text lines and links.
+ */
+function toPlainText(body: string): string {
+  if (!/<[a-z][^>]*>/i.test(body)) return body;
+
+  return body
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>/gi, ' $1 ')
+    .replace(/<br\s*\/?>|<\/(p|div|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_match, name: string) => HtmlEntities[name])
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)));
+}
+
+function findUrls(text: string): URL[] {
+  return (text.match(/https?:\/\/[^\s"'<>]+/g) ?? []).flatMap((candidate: string) => {
+    try {
+      return [new URL(candidate)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Parses the "AWS Notification Message" sent by the application for each image event:
+ * `key: value` lines followed by the SNS unsubscribe link.
+ */
+export function parseImageEventNotification(body: string): IImageEventNotification {
+  const text: string = toPlainText(body);
+  const problems: string[] = [];
+
+  const fields: Record<string, string> = Object.fromEntries(
+    [
+      ...text.matchAll(/^\s*(event_type|object_key|object_type|last_modified|object_size|download_link):[ \t]*(.*)$/gm),
+    ].map(([, name, value]) => [name, value.trim()]),
+  );
+
+  ['event_type', 'object_key', 'object_type', 'last_modified', 'object_size'].forEach((name) => {
+    if (!fields[name]) problems.push(`${name} is missing`);
+  });
+
+  if (fields.event_type && !ImageEventTypes.includes(fields.event_type as ImageEventType)) {
+    problems.push(`event_type "${fields.event_type}" is not one of: ${ImageEventTypes.join(', ')}`);
+  }
+
+  if (fields.object_size && !/^\d+$/.test(fields.object_size)) {
+    problems.push(`object_size "${fields.object_size}" is not a number`);
+  }
+
+  // Deleted images have no download link
+  if (fields.download_link === undefined) problems.push('download_link is missing');
+
+  const unsubscribeUrl: URL = findUrls(text).find(({ pathname, searchParams }) =>
+    /unsubscribe/i.test(`${pathname}${searchParams.get('Action') ?? ''}`),
+  );
+
+  if (!unsubscribeUrl) problems.push('the unsubscribe link is missing');
+
+  if (problems.length) throw new EmailParseError('image event notification', problems, body);
+
+  return {
+    event_type: fields.event_type as ImageEventType,
+    object_key: fields.object_key,
+    object_type: fields.object_type,
+    last_modified: fields.last_modified,
+    object_size: Number(fields.object_size),
+    download_link: fields.download_link,
+    unsubscribeUrl: unsubscribeUrl.href,
+  };
+}
+
+/**
+ * Parses the "AWS Notification - Subscription Confirmation" email. The confirmation link is the
+ * one that carries the token, which works for both the SNS endpoint and AWS emulators.
+ */
+export function parseSubscriptionConfirmation(body: string): ISubscriptionConfirmation {
+  const confirmUrl: URL = findUrls(toPlainText(body)).find(({ searchParams }) => searchParams.get('Token'));
+
+  if (!confirmUrl) {
+    throw new EmailParseError('subscription confirmation', ['the confirmation link with a token is missing'], body);
+  }
+
+  const topicArn: string = confirmUrl.searchParams.get('TopicArn');
+
+  if (!topicArn?.startsWith('arn:')) {
+    throw new EmailParseError(
+      'subscription confirmation',
+      [`the confirmation link has no valid TopicArn: ${confirmUrl.href}`],
+      body,
+    );
+  }
+
+  return {
+    confirmUrl: confirmUrl.href,
+    token: confirmUrl.searchParams.get('Token'),
+    topicArn,
+  };
+}
@@ -0,0 +1,53 @@
+export interface IApiRequestFailure {
+  method: string;
+  url: string;
+  // Undefined when no response was received, e.g. on timeouts and connection errors
+  status?: number;
+  statusText?: string;
+  // axios error code, e.g. ECONNABORTED, ECONNREFUSED or ERR_BAD_REQUEST
+  code?: string;
+  // Redacted and truncated response body
+  body?: string;
+  headers?: Record<string, unknown>;
+  attempts: number;
+  cause: unknown;
+}
+
+export class ApiRequestError extends Error {
+  readonly method: string;
+
+  readonly url: string;
+
+  readonly status: number | undefined;
+
+  readonly code: string | undefined;
+
+  readonly body: string | undefined;
+
+  readonly headers: Record<string, unknown>;
+
+  readonly attempts: number;
+
+  readonly cause: unknown;
+
+  constructor({ method, url, status, statusText, code, body, headers = {}, attempts, cause }: IApiRequestFailure) {
+    const message: string = cause instanceof Error ? cause.message : String(cause);
+    const reason: string = status
+      ? `status ${status}${statusText ? ` ${statusText}` : ''}`
+      : `${code ? `${code}: ` : ''}${message}`;
+
+    super(
+      `${method} ${url} failed with ${reason}${attempts > 1 ? ` after ${attempts} attempts` : ''}` +
+        `${body ? `\nResponse body: ${body}` : ''}`,
+    );
+    this.name = 'ApiRequestError';
+    this.method = method;
+    this.url = url;
+    this.status = status;
+    this.code = code;
+    this.body = body;
+    this.headers = headers;
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
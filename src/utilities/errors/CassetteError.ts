@@ -0,0 +1,15 @@
+export class CassetteError extends Error {
+  readonly request: string;
+
+  readonly cassettePath: string;
+
+  constructor(request: string, cassettePath: string, reason: string) {
+    super(
+      `Cannot replay ${request} from the cassette ${cassettePath}:\n  - ${reason}\n` +
+        'Record the test again with CASSETTE_MODE=record against a live deployment.',
+    );
+    this.name = 'CassetteError';
+    this.request = request;
+    this.cassettePath = cassettePath;
+  }
+}
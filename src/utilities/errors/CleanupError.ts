@@ -0,0 +1,20 @@
+export interface ICleanupFailure {
+  description: string;
+  error: unknown;
+}
+
+export class CleanupError extends Error {
+  readonly failures: ICleanupFailure[];
+
+  constructor(failures: ICleanupFailure[]) {
+    super(
+      `Cleanup failed for ${failures.length} resource(s):\n${failures
+        .map(
+          ({ description, error }) => `  - ${description}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        .join('\n')}`,
+    );
+    this.name = 'CleanupError';
+    this.failures = failures;
+  }
+}
@@ -0,0 +1,12 @@
+export class ConfigValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(
+      `Invalid test configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}\n` +
+        'Set the variables in config/{ENV}.env, .env or the environment and run the tests again.',
+    );
+    this.name = 'ConfigValidationError';
+    this.problems = problems;
+  }
+}
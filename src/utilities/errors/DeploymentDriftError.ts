@@ -0,0 +1,18 @@
+import { formatSnapshotChange, type ISnapshotChange } from '../snapshots/snapshotDiff';
+
+export class DeploymentDriftError extends Error {
+  readonly baselinePath: string;
+
+  readonly changes: ISnapshotChange[];
+
+  constructor(baselinePath: string, changes: ISnapshotChange[]) {
+    super(
+      `The deployment differs from the baseline ${baselinePath}:\n` +
+        `${changes.map((change) => `  ${formatSnapshotChange(change)}`).join('\n')}\n` +
+        'Run with UPDATE_BASELINE=true to accept the current deployment.',
+    );
+    this.name = 'DeploymentDriftError';
+    this.baselinePath = baselinePath;
+    this.changes = changes;
+  }
+}
@@ -0,0 +1,9 @@
+export class DeploymentResourceNotFoundError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`Deployment resources not found:\n${missing.map((reason) => `  - ${reason}`).join('\n')}`);
+    this.name = 'DeploymentResourceNotFoundError';
+    this.missing = missing;
+  }
+}
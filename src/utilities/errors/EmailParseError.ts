@@ -0,0 +1,15 @@
+export class EmailParseError extends Error {
+  readonly problems: string[];
+
+  readonly body: string;
+
+  constructor(kind: string, problems: string[], body: string) {
+    super(
+      `Cannot parse the ${kind} email:\n${problems.map((problem) => `  - ${problem}`).join('\n')}\n` +
+        `Email body:\n${body}`,
+    );
+    this.name = 'EmailParseError';
+    this.problems = problems;
+    this.body = body;
+  }
+}
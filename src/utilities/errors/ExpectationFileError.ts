@@ -0,0 +1,13 @@
+export class ExpectationFileError extends Error {
+  readonly file: string;
+
+  // e.g. 'resources[2].type must be one of: ec2Instance, vpc, ...'
+  readonly problems: string[];
+
+  constructor(file: string, problems: string[]) {
+    super(`Invalid expectation file ${file}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ExpectationFileError';
+    this.file = file;
+    this.problems = problems;
+  }
+}
@@ -0,0 +1,23 @@
+export class ResponseSchemaError extends Error {
+  readonly method: string;
+
+  readonly url: string;
+
+  // e.g. '$[0].id must be string'
+  readonly problems: string[];
+
+  // The response body, e.g. to clean up what a POST created even though its response is invalid
+  readonly data: unknown;
+
+  constructor(method: string, url: string, problems: string[], data?: unknown) {
+    super(
+      `The response to ${method} ${url} does not match the schema:\n` +
+        `${problems.map((problem) => `  - ${problem}`).join('\n')}`,
+    );
+    this.name = 'ResponseSchemaError';
+    this.method = method;
+    this.url = url;
+    this.problems = problems;
+    this.data = data;
+  }
+}
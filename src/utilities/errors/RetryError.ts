@@ -0,0 +1,42 @@
+export type RetryStopReason = 'deadline' | 'attempts' | 'aborted';
+
+export interface IRetryDiagnostics {
+  description: string;
+  reason: RetryStopReason;
+  attempts: number;
+  elapsedMs: number;
+  lastError?: unknown;
+}
+
+const StopReasonMessages: Record<RetryStopReason, string> = {
+  deadline: 'deadline reached',
+  attempts: 'no attempts left',
+  aborted: 'aborted',
+};
+
+export class RetryError extends Error {
+  readonly reason: RetryStopReason;
+
+  readonly attempts: number;
+
+  readonly elapsedMs: number;
+
+  readonly lastError: unknown;
+
+  constructor({ description, reason, attempts, elapsedMs, lastError }: IRetryDiagnostics) {
+    const last: string =
+      lastError === undefined
+        ? ''
+        : `. Last error: ${lastError instanceof Error ? lastError.message : String(lastError)}`;
+
+    super(
+      `${description}: gave up after ${attempts} attempt(s) in ${(elapsedMs / 1000).toFixed(1)}s ` +
+        `(${StopReasonMessages[reason]})${last}`,
+    );
+    this.name = 'RetryError';
+    this.reason = reason;
+    this.attempts = attempts;
+    this.elapsedMs = elapsedMs;
+    this.lastError = lastError;
+  }
+}
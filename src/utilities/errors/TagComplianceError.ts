@@ -0,0 +1,14 @@
+import { formatTagViolations, type ITagViolation } from '../tags/tagRules';
+
+export class TagComplianceError extends Error {
+  readonly stackName: string;
+
+  readonly violations: ITagViolation[];
+
+  constructor(stackName: string, violations: ITagViolation[]) {
+    super(`${violations.length} tag violation(s) in stack ${stackName}:\n${formatTagViolations(violations)}`);
+    this.name = 'TagComplianceError';
+    this.stackName = stackName;
+    this.violations = violations;
+  }
+}
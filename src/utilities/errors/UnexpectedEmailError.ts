@@ -0,0 +1,12 @@
+export class UnexpectedEmailError extends Error {
+  readonly email: string;
+
+  readonly subject: string;
+
+  constructor(email: string, subject: string, within: number) {
+    super(`Email sent to "${email}" with subject "${subject}" arrived, but none was expected within ${within}ms`);
+    this.name = 'UnexpectedEmailError';
+    this.email = email;
+    this.subject = subject;
+  }
+}
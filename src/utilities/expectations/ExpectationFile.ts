@@ -0,0 +1,141 @@
+import { readdirSync, readFileSync } from 'fs';
+import { basename, extname, join, relative } from 'path';
+import yaml from 'js-yaml';
+import _ from 'lodash';
+import { ExpectedResourceTypes, type ExpectedResourceType } from './resourceFetchers';
+import {
+  FieldMatcherOperators,
+  findUnknownPlaceholders,
+  findUnsetPlaceholders,
+  isFieldMatcher,
+  toFieldChecks,
+} from './fieldChecks';
+import { BaseConfig } from '../../BaseConfig';
+import { getSelectedStackName, StackProfiles, type StackName } from '../../stacks/StackProfiles';
+import { ExpectationFileError } from '../errors/ExpectationFileError';
+
+export interface IExpectedResource {
+  type: ExpectedResourceType;
+  // Meaning depends on the type: the instance (public or private) for EC2 and VPC, the name for IAM
+  id?: string;
+  // Title in the report, defaults to '{type} {id}'
+  title?: string;
+  // Expected fields of the resource, see toFieldChecks
+  expect: Record<string, unknown>;
+}
+
+export interface IExpectationFile {
+  file: string;
+  // File name without the extension
+  stack: string;
+  resources: IExpectedResource[];
+}
+
+const EXTENSIONS: string[] = ['.yaml', '.yml', '.json'];
+
+function getMatcherProblems(expected: unknown, where: string): string[] {
+  return toFieldChecks(expected)
+    .filter((check) => isFieldMatcher(check.expected))
+    .flatMap(({ expected: matcher }) => {
+      const problems: string[] = Object.keys(matcher)
+        .filter((key) => !FieldMatcherOperators.includes(key as (typeof FieldMatcherOperators)[number]))
+        .map((key) => `${where} uses the unknown operator ${key}`);
+      const pattern: unknown = (matcher as { $match?: unknown }).$match;
+
+      if (pattern !== undefined) {
+        try {
+          RegExp(String(pattern));
+        } catch (error) {
+          problems.push(`${where} has an invalid $match: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      return problems;
+    });
+}
+
+function getResourceProblems(resource: unknown, where: string): string[] {
+  if (!_.isPlainObject(resource)) return [`${where} must be a mapping`];
+
+  const { type, id, title, expect } = resource as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (!ExpectedResourceTypes.includes(type as ExpectedResourceType)) {
+    problems.push(`${where}.type must be one of: ${ExpectedResourceTypes.join(', ')}`);
+  }
+
+  if (id !== undefined && typeof id !== 'string') problems.push(`${where}.id must be a string`);
+
+  if (title !== undefined && typeof title !== 'string') problems.push(`${where}.title must be a string`);
+
+  if (!_.isPlainObject(expect) || _.isEmpty(expect)) {
+    problems.push(`${where}.expect must be a mapping with at least one field`);
+  } else {
+    problems.push(
+      ...getMatcherProblems(expect, `${where}.expect`),
+      ...findUnknownPlaceholders(expect).map((name) => `${where}.expect uses \${${name}}, which is not a setting`),
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Reads the expected state of one stack from a YAML or JSON file and checks its structure.
+ */
+export function loadExpectationFile(file: string): IExpectationFile {
+  const path: string = relative(process.cwd(), file);
+  let content: unknown;
+
+  try {
+    content = yaml.load(readFileSync(file, 'utf8'), { filename: path });
+  } catch (error) {
+    throw new ExpectationFileError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const resources: unknown = (content as { resources?: unknown })?.resources;
+
+  if (!Array.isArray(resources) || !resources.length) {
+    throw new ExpectationFileError(path, ['resources must be a list with at least one resource']);
+  }
+
+  const problems: string[] = resources.flatMap((resource, index) =>
+    getResourceProblems(resource, `resources[${index}]`),
+  );
+
+  if (problems.length) throw new ExpectationFileError(path, problems);
+
+  return { file: path, stack: basename(file, extname(file)), resources: resources as IExpectedResource[] };
+}
+
+/**
+ * Loads every expectation file in the directory, one per stack.
+ */
+export function loadExpectationFiles(directory: string = join(process.cwd(), 'expectations')): IExpectationFile[] {
+  return readdirSync(directory)
+    .filter((name) => EXTENSIONS.includes(extname(name)))
+    .sort()
+    .map((name) => loadExpectationFile(join(directory, name)));
+}
+
+/**
+ * Returns the files that run for the selected stack. Files of stacks without a profile, such as
+ * cloudxiam, run whichever stack is selected.
+ */
+export function selectExpectationFiles(
+  files: IExpectationFile[],
+  selectedStack: StackName | undefined = getSelectedStackName(),
+): IExpectationFile[] {
+  return files.filter(({ stack }) => !selectedStack || stack === selectedStack || !(stack in StackProfiles));
+}
+
+/**
+ * Lists the settings the file refers to with ${...} that have no value, so that only the settings
+ * of the files that actually run are required.
+ */
+export function getUnsetSettings({ file, resources }: IExpectationFile, config: object = BaseConfig): string[] {
+  return findUnsetPlaceholders(
+    resources.map(({ expect }) => expect),
+    config,
+  ).map((name) => `\${${name}} is used by ${file}, but not set`);
+}
@@ -0,0 +1,172 @@
+import _ from 'lodash';
+import { BaseConfig } from '../../BaseConfig';
+
+export type FieldPath = (string | number)[];
+
+// Operators for values that cannot be written down literally
+export interface IFieldMatcher {
+  $exists?: boolean;
+  // Regular expression the value has to match
+  $match?: string;
+  $length?: number;
+  // Array element that contains the given fields
+  $includes?: unknown;
+}
+
+export interface IFieldCheck {
+  path: FieldPath;
+  // A literal value or an IFieldMatcher; strings may contain ${...} placeholders
+  expected: unknown;
+}
+
+export const FieldMatcherOperators: (keyof IFieldMatcher)[] = ['$exists', '$match', '$length', '$includes'];
+
+const PLACEHOLDER: RegExp = /\$\{([^}]+)\}/g;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return _.isPlainObject(value);
+}
+
+export function isFieldMatcher(value: unknown): value is IFieldMatcher {
+  return (
+    isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every((key) => key.startsWith('$'))
+  );
+}
+
+// ['Volumes', 0, 'Size'] becomes 'Volumes[0].Size'
+export function formatFieldPath(path: FieldPath): string {
+  return path.reduce<string>((text, segment) => {
+    if (typeof segment === 'number') return `${text}[${segment}]`;
+
+    return text ? `${text}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Splits the expected state of a resource into one check per field. Objects only check the fields
+ * they list; arrays also check their length, so that extra or missing elements are reported.
+ */
+export function toFieldChecks(expected: unknown, path: FieldPath = []): IFieldCheck[] {
+  if (Array.isArray(expected)) {
+    return [
+      { path, expected: { $length: expected.length } },
+      ...expected.flatMap((item, index) => toFieldChecks(item, [...path, index])),
+    ];
+  }
+
+  if (isPlainObject(expected) && !isFieldMatcher(expected)) {
+    return Object.entries(expected).flatMap(([key, value]) => toFieldChecks(value, [...path, key]));
+  }
+
+  return [{ path, expected }];
+}
+
+// Names of the ${...} placeholders in a value, e.g. expected.ec2InstanceType
+export function findPlaceholders(value: unknown): string[] {
+  if (typeof value === 'string') return [...value.matchAll(PLACEHOLDER)].map(([, name]) => name);
+
+  if (Array.isArray(value) || isPlainObject(value)) return _.uniq(Object.values(value).flatMap(findPlaceholders));
+
+  return [];
+}
+
+function isUnset(setting: unknown): boolean {
+  return setting === undefined || setting === null || setting === '';
+}
+
+/**
+ * Returns the ${...} placeholders of a value that do not name a BaseConfig setting.
+ */
+export function findUnknownPlaceholders(value: unknown, config: object = BaseConfig): string[] {
+  return findPlaceholders(value).filter((name) => !_.has(config, name));
+}
+
+/**
+ * Returns the ${...} placeholders of a value whose BaseConfig setting has no value.
+ */
+export function findUnsetPlaceholders(value: unknown, config: object = BaseConfig): string[] {
+  return findPlaceholders(value).filter((name) => isUnset(_.get(config, name)));
+}
+
+/**
+ * Replaces ${name} with the BaseConfig value at that path, e.g. ${accountId} or
+ * ${expected.ec2InstanceType}. A string that is a single placeholder keeps the type of the value.
+ */
+export function interpolate(value: unknown, config: object = BaseConfig): unknown {
+  if (Array.isArray(value)) return value.map((item) => interpolate(item, config));
+
+  if (isPlainObject(value)) return _.mapValues(value, (item) => interpolate(item, config));
+
+  if (typeof value !== 'string') return value;
+
+  const resolve = (name: string): unknown => {
+    const setting: unknown = _.get(config, name);
+
+    if (isUnset(setting)) throw new Error(`\${${name}} is not set`);
+
+    return setting;
+  };
+
+  const single: RegExpMatchArray = value.match(/^\$\{([^}]+)\}$/);
+
+  if (single) return resolve(single[1]);
+
+  return value.replace(PLACEHOLDER, (_placeholder, name: string) => String(resolve(name)));
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+// Used in test titles, so placeholders are shown as written rather than with the configured values
+export function describeExpectation(expected: unknown): string {
+  if (!isFieldMatcher(expected)) return `is ${formatValue(expected)}`;
+
+  const { $exists, $match, $length, $includes } = expected;
+
+  return [
+    $exists !== undefined && ($exists ? 'exists' : 'does not exist'),
+    $match !== undefined && `matches /${$match}/`,
+    $length !== undefined && `has ${$length} element${$length === 1 ? '' : 's'}`,
+    $includes !== undefined && `includes ${formatValue($includes)}`,
+  ]
+    .filter(Boolean)
+    .join(' and ');
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  return isPlainObject(expected) ? isPlainObject(actual) && _.isMatch(actual, expected) : _.isEqual(actual, expected);
+}
+
+/**
+ * Compares one field with its interpolated expectation and describes the mismatch, or returns
+ * undefined when the field is as expected.
+ */
+export function compareField(actual: unknown, expected: unknown): string | undefined {
+  const got = `got ${formatValue(actual)}`;
+
+  if (!isFieldMatcher(expected)) {
+    return _.isEqual(actual, expected) ? undefined : `expected ${formatValue(expected)}, ${got}`;
+  }
+
+  const { $exists, $match, $length, $includes } = expected;
+  const exists: boolean = actual !== undefined && actual !== null && actual !== '';
+
+  if ($exists !== undefined && exists !== $exists) return `expected ${$exists ? 'a value' : 'nothing'}, ${got}`;
+
+  if ($match !== undefined && !(typeof actual === 'string' && new RegExp($match).test(actual))) {
+    return `expected a string matching /${$match}/, ${got}`;
+  }
+
+  if ($length !== undefined && !(Array.isArray(actual) && actual.length === $length)) {
+    return `expected ${$length} element${$length === 1 ? '' : 's'}, ${
+      Array.isArray(actual) ? `got ${actual.length}` : got
+    }`;
+  }
+
+  if ($includes !== undefined && !(Array.isArray(actual) && actual.some((item) => matches(item, $includes)))) {
+    return `expected an element matching ${formatValue($includes)}, ${got}`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,125 @@
+import { DescribeVolumesCommand, DescribeVpcsCommand, type Tag } from '@aws-sdk/client-ec2';
+import {
+  GetGroupCommand,
+  GetPolicyCommand,
+  GetPolicyVersionCommand,
+  GetRoleCommand,
+  GetUserCommand,
+  ListAttachedGroupPoliciesCommand,
+  ListAttachedRolePoliciesCommand,
+  ListGroupsForUserCommand,
+} from '@aws-sdk/client-iam';
+import { BaseConfig } from '../../BaseConfig';
+import type { AwsClients } from '../aws/AwsClients';
+import type { DeployedInstanceType, DeploymentContext } from '../aws/DeploymentContext';
+
+export interface IFetchContext {
+  deployment: DeploymentContext;
+  clients: AwsClients;
+}
+
+// Returns the actual state of one resource as a plain object that the expectations are compared with
+type ResourceFetcher = (id: string | undefined, context: IFetchContext) => Promise<Record<string, unknown>>;
+
+// Tag lists become maps, so that expectations can address a tag as Tags.Name
+function toTagMap(tags: Tag[] = []): Record<string, string> {
+  return Object.fromEntries(tags.map(({ Key, Value }) => [Key, Value]));
+}
+
+// Policy documents are returned URL-encoded
+function parsePolicyDocument(document: string): unknown {
+  return JSON.parse(decodeURIComponent(document));
+}
+
+function toInstanceType(id: string = 'public'): DeployedInstanceType {
+  if (id !== 'public' && id !== 'private') throw new Error(`Unknown EC2 instance "${id}", use public or private`);
+
+  return id;
+}
+
+function iamArn(resource: string): string {
+  return `arn:aws:iam::${BaseConfig.accountId}:${resource}`;
+}
+
+const ResourceFetchers = {
+  // id: public (default) or private, the instance with that logical ID in the stack profile
+  async ec2Instance(id, { deployment, clients }) {
+    const name = `${toInstanceType(id)}Instance` as const;
+    const { [name]: deployed } = await deployment.resolve(name);
+    const { Volumes = [] } = await clients.ec2.send(
+      new DescribeVolumesCommand({ Filters: [{ Name: 'attachment.instance-id', Values: [deployed.id] }] }),
+    );
+
+    return {
+      ...deployed.instance,
+      Tags: toTagMap(deployed.tags),
+      Volumes: Volumes.map((volume) => ({ ...volume, Tags: toTagMap(volume.Tags) })),
+    };
+  },
+
+  // id: the instance whose VPC is checked, public (default) or private
+  async vpc(id, { deployment, clients }) {
+    const name = `${toInstanceType(id)}Instance` as const;
+    const { [name]: deployed } = await deployment.resolve(name);
+    const { Vpcs } = await clients.ec2.send(new DescribeVpcsCommand({ VpcIds: [deployed.vpcId] }));
+
+    return { ...Vpcs[0], Tags: toTagMap(Vpcs[0].Tags) };
+  },
+
+  async rdsInstance(_id, { deployment }) {
+    const { rdsInstance } = await deployment.resolve('rdsInstance');
+
+    return { ...rdsInstance.instance, Tags: toTagMap(rdsInstance.instance.TagList) };
+  },
+
+  // id: policy name
+  async iamPolicy(id, { clients }) {
+    const PolicyArn: string = iamArn(`policy/${id}`);
+    const { Policy } = await clients.iam.send(new GetPolicyCommand({ PolicyArn }));
+    const { PolicyVersion } = await clients.iam.send(
+      new GetPolicyVersionCommand({ PolicyArn, VersionId: Policy.DefaultVersionId }),
+    );
+
+    return { ...Policy, Document: parsePolicyDocument(PolicyVersion.Document) };
+  },
+
+  // id: role name
+  async iamRole(id, { clients }) {
+    const { Role } = await clients.iam.send(new GetRoleCommand({ RoleName: id }));
+    const { AttachedPolicies } = await clients.iam.send(new ListAttachedRolePoliciesCommand({ RoleName: id }));
+
+    return {
+      ...Role,
+      AssumeRolePolicyDocument: parsePolicyDocument(Role.AssumeRolePolicyDocument),
+      AttachedPolicies,
+    };
+  },
+
+  // id: group name
+  async iamGroup(id, { clients }) {
+    const { Group } = await clients.iam.send(new GetGroupCommand({ GroupName: id }));
+    const { AttachedPolicies } = await clients.iam.send(new ListAttachedGroupPoliciesCommand({ GroupName: id }));
+
+    return { ...Group, AttachedPolicies };
+  },
+
+  // id: user name
+  async iamUser(id, { clients }) {
+    const { User } = await clients.iam.send(new GetUserCommand({ UserName: id }));
+    const { Groups } = await clients.iam.send(new ListGroupsForUserCommand({ UserName: id }));
+
+    return { ...User, Tags: toTagMap(User.Tags), Groups };
+  },
+} satisfies Record<string, ResourceFetcher>;
+
+export type ExpectedResourceType = keyof typeof ResourceFetchers;
+
+export const ExpectedResourceTypes = Object.keys(ResourceFetchers) as ExpectedResourceType[];
+
+export async function fetchResource(
+  type: ExpectedResourceType,
+  id: string | undefined,
+  context: IFetchContext,
+): Promise<Record<string, unknown>> {
+  return ResourceFetchers[type](id, context);
+}
@@ -0,0 +1,27 @@
+import { BaseConfig } from '../BaseConfig';
+
+// Used in local mode for every value that is not set explicitly
+export const LocalModeDefaults = {
+  region: 'us-east-1',
+  accessKeyId: 'test',
+  secretAccessKey: 'test',
+  awsEndpoint: 'http://localhost:4566',
+  appBaseUrl: 'http://localhost:8080',
+  mailtrapUrl: 'http://localhost:8025/api',
+};
+
+export function isLocalMode(config: typeof BaseConfig = BaseConfig): boolean {
+  return config.mode === 'local';
+}
+
+/**
+ * Returns the configured application base URL, or undefined when the application
+ * should be reached through the public EC2 instance of the deployment.
+ */
+export function getAppBaseUrl(config: typeof BaseConfig = BaseConfig): string | undefined {
+  return config.appBaseUrl || (isLocalMode(config) ? LocalModeDefaults.appBaseUrl : undefined);
+}
+
+export function getMailtrapUrl(config: typeof BaseConfig = BaseConfig): string {
+  return config.mailtrapUrl || (isLocalMode(config) ? LocalModeDefaults.mailtrapUrl : undefined);
+}
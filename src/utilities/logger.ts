@@ -0,0 +1,132 @@
+import { formatISO } from 'date-fns';
+import { BaseConfig, BaseConfigSecrets } from '../BaseConfig';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'text' | 'json';
+
+export type LogFields = Record<string, unknown>;
+
+export interface ILogEntry {
+  time: string;
+  level: LogLevel;
+  module?: string;
+  message: string;
+  fields?: LogFields;
+}
+
+// Receives every entry at or above the configured level, already redacted and formatted
+export type LogSink = (line: string, entry: ILogEntry) => void;
+
+export interface ILoggerSettings {
+  level: LogLevel;
+  format: LogFormat;
+  sink: LogSink;
+  // Exact values to hide, e.g. tokens and passwords from BaseConfig
+  secrets: string[];
+}
+
+const LogLevels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Shorter values would hide unrelated text, e.g. a two-digit inbox ID
+const MIN_SECRET_LENGTH: number = 4;
+
+const REDACTED: string = '***';
+
+// eslint-disable-next-line no-console
+const consoleSink: LogSink = (line) => console.log(line);
+
+const settings: ILoggerSettings = {
+  level: BaseConfig.logLevel,
+  format: BaseConfig.logFormat,
+  sink: consoleSink,
+  secrets: BaseConfigSecrets,
+};
+
+export function configureLogger(overrides: Partial<ILoggerSettings>): void {
+  Object.assign(settings, overrides);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Hides the configured secret values, the values of token, password and key parameters, and the
+ * local part of email addresses, which identify the test inbox.
+ */
+export function redact(text: string, secrets: string[] = settings.secrets): string {
+  const redacted: string = secrets
+    .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+    .reduce((result, secret) => result.replace(new RegExp(escapeRegExp(secret), 'g'), REDACTED), text);
+
+  return redacted
+    .replace(
+      /\b([\w-]*?(?:token|password|secret|(?:access|secret|api|private)[-_]?key|authorization))(["']?\s*[:=]\s*["']?)([^\s&"',;}]+)/gi,
+      `$1$2${REDACTED}`,
+    )
+    .replace(/[\w.%+-]+(@|%40)([\w-]+(?:\.[\w-]+)+)/g, `${REDACTED}$1$2`);
+}
+
+function redactFields(fields: LogFields): LogFields {
+  return JSON.parse(redact(JSON.stringify(fields))) as LogFields;
+}
+
+function formatEntry(entry: ILogEntry, format: LogFormat): string {
+  if (format === 'json') return JSON.stringify({ ...entry.fields, ...entry, fields: undefined });
+
+  const module: string = entry.module ? ` [${entry.module}]` : '';
+  const fields: string = entry.fields ? ` ${JSON.stringify(entry.fields)}` : '';
+  const level: string = entry.level === 'info' ? '' : ` ${entry.level.toUpperCase()}`;
+
+  return `[${entry.time}]${level}${module} : ${entry.message}${fields}`;
+}
+
+export class Logger {
+  readonly module: string | undefined;
+
+  constructor(module?: string) {
+    this.module = module;
+  }
+
+  // Child modules are joined with a dot, e.g. 'api.mailtrap'
+  child(module: string): Logger {
+    return new Logger(this.module ? `${this.module}.${module}` : module);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.#write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.#write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.#write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.#write('error', message, fields);
+  }
+
+  #write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LogLevels.indexOf(level) < LogLevels.indexOf(settings.level)) return;
+
+    const entry: ILogEntry = {
+      time: formatISO(new Date()),
+      level,
+      module: this.module,
+      message: redact(message),
+      fields: fields && redactFields(fields),
+    };
+
+    settings.sink(formatEntry(entry, settings.format), entry);
+  }
+}
+
+export const logger: Logger = new Logger();
+
+export function getLogger(module: string): Logger {
+  return logger.child(module);
+}
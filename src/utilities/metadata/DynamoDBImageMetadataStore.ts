@@ -0,0 +1,39 @@
+import { type AttributeValue, paginateScan } from '@aws-sdk/client-dynamodb';
+import { awsClients } from '../aws/AwsClients';
+import type { IImageMetadataStore } from './imageMetadataStore';
+
+export class DynamoDBImageMetadataStore implements IImageMetadataStore {
+  readonly #tableName: string;
+
+  constructor(tableName: string) {
+    this.#tableName = tableName;
+  }
+
+  get location(): string {
+    return this.#tableName;
+  }
+
+  async connect(): Promise<void> {}
+
+  async getFieldNames(): Promise<string[]> {
+    const items: Record<string, AttributeValue>[] = await this.#scan();
+    return [...new Set(items.flatMap((item) => Object.keys(item)))];
+  }
+
+  async getImageIds(): Promise<string[]> {
+    const items: Record<string, AttributeValue>[] = await this.#scan();
+    return items.map((image) => image.id.S);
+  }
+
+  async close(): Promise<void> {}
+
+  async #scan(): Promise<Record<string, AttributeValue>[]> {
+    let items: Record<string, AttributeValue>[] = [];
+
+    for await (const page of paginateScan({ client: awsClients.dynamoDB }, { TableName: this.#tableName })) {
+      items = [...items, ...page.Items];
+    }
+
+    return items;
+  }
+}
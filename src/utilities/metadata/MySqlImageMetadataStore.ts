@@ -0,0 +1,71 @@
+import mysql, { type Connection, type RowDataPacket } from 'mysql2/promise';
+import { BaseConfig } from '../../BaseConfig';
+import { openSshTunnel, type ISshTunnel } from '../sshTunnel';
+import type { IImageMetadataStore } from './imageMetadataStore';
+
+export interface IMySqlImageMetadataStoreOptions {
+  sshHost: string;
+  rdsEndpoint: string;
+  rdsPort?: number;
+}
+
+export class MySqlImageMetadataStore implements IImageMetadataStore {
+  #tunnel: ISshTunnel;
+
+  #connection: Connection;
+
+  #tableName: string;
+
+  readonly #options: IMySqlImageMetadataStoreOptions;
+
+  constructor(options: IMySqlImageMetadataStoreOptions) {
+    this.#options = options;
+  }
+
+  get location(): string {
+    return this.#tableName;
+  }
+
+  async connect(): Promise<void> {
+    const { dbUsername, dbPassword, dbName, dbPort } = BaseConfig;
+    const { sshHost, rdsEndpoint, rdsPort } = this.#options;
+
+    // Create SSH tunnel to MySQL RDS
+    this.#tunnel = await openSshTunnel({
+      host: sshHost,
+      dstAddr: rdsEndpoint,
+      dstPort: rdsPort ?? dbPort,
+    });
+
+    this.#connection = await mysql.createConnection({
+      host: '127.0.0.1',
+      user: dbUsername,
+      password: dbPassword,
+      port: this.#tunnel.localPort,
+      database: dbName,
+    });
+
+    const [tables] = await this.#connection.query<RowDataPacket[]>('SHOW TABLES;');
+    [this.#tableName] = Object.values(tables[0] ?? {}) as string[];
+
+    if (!this.#tableName) throw new Error(`There are no tables in the "${dbName}" database`);
+  }
+
+  async getFieldNames(): Promise<string[]> {
+    const [columns] = await this.#connection.query<RowDataPacket[]>(`SHOW COLUMNS FROM ${this.#tableName}`);
+    return columns.map((column) => column.Field);
+  }
+
+  async getImageIds(): Promise<number[]> {
+    const [images] = await this.#connection.query<RowDataPacket[]>(`SELECT id FROM ${this.#tableName};`);
+    return images.map((image) => image.id);
+  }
+
+  async close(): Promise<void> {
+    if (this.#connection && this.#connection.end) {
+      await this.#connection.end();
+    }
+
+    this.#tunnel?.close();
+  }
+}
@@ -0,0 +1,41 @@
+import type { IStackProfile } from '../../stacks/StackProfiles';
+import { getDeploymentContext } from '../aws/DeploymentContext';
+import { DynamoDBImageMetadataStore } from './DynamoDBImageMetadataStore';
+import { MySqlImageMetadataStore } from './MySqlImageMetadataStore';
+
+export interface IImageMetadataStore {
+  // Table that holds the image metadata
+  readonly location: string;
+  connect(): Promise<void>;
+  getFieldNames(): Promise<string[]>;
+  getImageIds(): Promise<Array<number | string>>;
+  close(): Promise<void>;
+}
+
+export async function openImageMetadataStore(profile: IStackProfile): Promise<IImageMetadataStore> {
+  const context = getDeploymentContext(profile);
+  let store: IImageMetadataStore;
+
+  switch (profile.metadataBackend) {
+    case 'mysql': {
+      const { publicInstance, rdsInstance } = await context.resolve('publicInstance', 'rdsInstance');
+      store = new MySqlImageMetadataStore({
+        sshHost: publicInstance.publicIpAddress,
+        rdsEndpoint: rdsInstance.endpoint,
+        rdsPort: rdsInstance.port,
+      });
+      break;
+    }
+    case 'dynamodb': {
+      const { tableName } = await context.resolve('tableName');
+      store = new DynamoDBImageMetadataStore(tableName);
+      break;
+    }
+    default:
+      throw new Error(`Stack "${profile.name}" has no image metadata backend`);
+  }
+
+  await store.connect();
+
+  return store;
+}
@@ -0,0 +1,265 @@
+import {
+  DescribeInternetGatewaysCommand,
+  DescribeNatGatewaysCommand,
+  DescribeRouteTablesCommand,
+  DescribeSubnetsCommand,
+  type InternetGateway,
+  type NatGateway,
+  type Route,
+  type RouteTable,
+  type Subnet,
+} from '@aws-sdk/client-ec2';
+import { awsClients, type AwsClients } from '../aws/AwsClients';
+import { cidrContains, parseCidr } from './cidr';
+
+export type RouteTargetKind =
+  | 'local'
+  | 'internetGateway'
+  | 'egressOnlyInternetGateway'
+  | 'natGateway'
+  | 'vpcEndpoint'
+  | 'virtualPrivateGateway'
+  | 'transitGateway'
+  | 'vpcPeering'
+  | 'networkInterface'
+  | 'instance'
+  | 'carrierGateway'
+  | 'localGateway'
+  // The route exists, but its target was deleted, so the traffic is dropped
+  | 'blackhole'
+  // No route matches the destination
+  | 'none';
+
+export interface IRouteTarget {
+  kind: RouteTargetKind;
+  // e.g. igw-0123; undefined for local and none
+  id?: string;
+}
+
+export interface IRouteResolution {
+  subnetId: string;
+  routeTableId: string;
+  // The subnet has no route table association of its own and uses the main route table of the VPC
+  implicitAssociation: boolean;
+  destination: string;
+  // Destination CIDR block or prefix list of the matching route
+  matchedRoute?: string;
+  target: IRouteTarget;
+}
+
+export interface IEgressPath {
+  // The route of the subnet, followed by the route of the NAT gateway's subnet when it goes through one
+  hops: IRouteResolution[];
+  reachesInternet: boolean;
+}
+
+export type SubnetClassification = 'public' | 'private' | 'isolated';
+
+// Internet traffic is routed by the default route
+const InternetDestination: string = '0.0.0.0/0';
+
+// Route fields that name the target, in the order they are checked; InstanceId comes before NetworkInterfaceId,
+// which EC2 also fills for routes to an instance
+const RouteTargetFields: [keyof Route, RouteTargetKind][] = [
+  ['EgressOnlyInternetGatewayId', 'egressOnlyInternetGateway'],
+  ['NatGatewayId', 'natGateway'],
+  ['TransitGatewayId', 'transitGateway'],
+  ['VpcPeeringConnectionId', 'vpcPeering'],
+  ['InstanceId', 'instance'],
+  ['NetworkInterfaceId', 'networkInterface'],
+  ['CarrierGatewayId', 'carrierGateway'],
+  ['LocalGatewayId', 'localGateway'],
+];
+
+// GatewayId holds the local route as well as internet, virtual private and VPC endpoint gateways
+const GatewayKinds: [RegExp, RouteTargetKind][] = [
+  [/^local$/, 'local'],
+  [/^igw-/, 'internetGateway'],
+  [/^vgw-/, 'virtualPrivateGateway'],
+  [/^vpce-/, 'vpcEndpoint'],
+];
+
+function getRouteDestination({
+  DestinationCidrBlock,
+  DestinationIpv6CidrBlock,
+  DestinationPrefixListId,
+}: Route): string {
+  return DestinationCidrBlock ?? DestinationIpv6CidrBlock ?? DestinationPrefixListId;
+}
+
+function getRouteTarget(route: Route): IRouteTarget {
+  const [field, kind] = RouteTargetFields.find(([name]) => route[name]) ?? [];
+  const target: IRouteTarget = field
+    ? { kind, id: route[field] }
+    : {
+        kind: GatewayKinds.find(([pattern]) => pattern.test(route.GatewayId ?? ''))?.[1] ?? 'none',
+        id: route.GatewayId === 'local' ? undefined : route.GatewayId,
+      };
+
+  return route.State === 'blackhole' ? { kind: 'blackhole', id: target.id } : target;
+}
+
+// e.g. subnet-0123 via rtb-0456 (main): 0.0.0.0/0 -> natGateway nat-0789
+export function formatRouteResolution({
+  subnetId,
+  routeTableId,
+  implicitAssociation,
+  destination,
+  matchedRoute,
+  target,
+}: IRouteResolution): string {
+  return `${subnetId} via ${routeTableId}${implicitAssociation ? ' (main)' : ''}: ${matchedRoute ?? destination} -> ${[
+    target.kind,
+    target.id,
+  ]
+    .filter(Boolean)
+    .join(' ')}`;
+}
+
+/**
+ * Resolves where traffic from a subnet goes the way the VPC router does: through the route table
+ * associated with the subnet or the main route table, and the most specific route that matches.
+ */
+export class RouteTableAnalyzer {
+  readonly routeTables: RouteTable[];
+
+  readonly subnets: Subnet[];
+
+  readonly natGateways: NatGateway[];
+
+  // Internet gateways attached to the VPC
+  readonly internetGateways: InternetGateway[];
+
+  constructor(
+    routeTables: RouteTable[],
+    subnets: Subnet[],
+    natGateways: NatGateway[] = [],
+    internetGateways: InternetGateway[] = [],
+  ) {
+    this.routeTables = routeTables;
+    this.subnets = subnets;
+    this.natGateways = natGateways;
+    this.internetGateways = internetGateways;
+  }
+
+  /**
+   * Returns the route table of the subnet; a subnet without an explicit association uses the main route table.
+   */
+  getEffectiveRouteTable(subnetId: string): { routeTable: RouteTable; implicitAssociation: boolean } {
+    const subnet: Subnet = this.subnets.find((candidate) => candidate.SubnetId === subnetId);
+
+    if (!subnet) throw new Error(`Subnet ${subnetId} is not one of the analyzed subnets`);
+
+    const explicit: RouteTable = this.routeTables.find(({ Associations = [] }) =>
+      Associations.some((association) => association.SubnetId === subnetId),
+    );
+
+    if (explicit) return { routeTable: explicit, implicitAssociation: false };
+
+    const main: RouteTable = this.routeTables.find(
+      ({ VpcId, Associations = [] }) => VpcId === subnet.VpcId && Associations.some(({ Main }) => Main),
+    );
+
+    if (!main) throw new Error(`VPC ${subnet.VpcId} of subnet ${subnetId} has no main route table`);
+
+    return { routeTable: main, implicitAssociation: true };
+  }
+
+  /**
+   * Finds the route for traffic from the subnet to a destination: an IPv4 or IPv6 address or CIDR block,
+   * or a prefix list ID (pl-...). The most specific route that contains the whole destination wins;
+   * prefix list routes, e.g. of gateway endpoints, only match their own prefix list ID.
+   */
+  resolveRoute(subnetId: string, destination: string): IRouteResolution {
+    const { routeTable, implicitAssociation } = this.getEffectiveRouteTable(subnetId);
+    const resolution = { subnetId, routeTableId: routeTable.RouteTableId, implicitAssociation, destination };
+    const routes: Route[] = routeTable.Routes ?? [];
+
+    if (destination.startsWith('pl-')) {
+      const route: Route = routes.find(({ DestinationPrefixListId }) => DestinationPrefixListId === destination);
+
+      return route
+        ? { ...resolution, matchedRoute: destination, target: getRouteTarget(route) }
+        : { ...resolution, target: { kind: 'none' } };
+    }
+
+    const [route] = routes
+      .filter((candidate) => {
+        const routeDestination: string = getRouteDestination(candidate);
+
+        return !routeDestination.startsWith('pl-') && cidrContains(routeDestination, destination);
+      })
+      .sort((a, b) => parseCidr(getRouteDestination(b)).prefixLength - parseCidr(getRouteDestination(a)).prefixLength);
+
+    return route
+      ? { ...resolution, matchedRoute: getRouteDestination(route), target: getRouteTarget(route) }
+      : { ...resolution, target: { kind: 'none' } };
+  }
+
+  /**
+   * Follows traffic from the subnet to the destination through a NAT gateway, if the route leads to one.
+   * The traffic reaches the Internet when it ends at an internet gateway attached to the VPC; a NAT
+   * gateway that is not available, or that sits in a subnet without such a route, does not count.
+   */
+  traceEgress(subnetId: string, destination: string = InternetDestination): IEgressPath {
+    const hops: IRouteResolution[] = [this.resolveRoute(subnetId, destination)];
+    const { target } = hops[0];
+
+    if (target.kind === 'natGateway') {
+      const natGateway: NatGateway = this.natGateways.find(({ NatGatewayId }) => NatGatewayId === target.id);
+
+      if (natGateway?.State !== 'available') return { hops, reachesInternet: false };
+
+      hops.push(this.resolveRoute(natGateway.SubnetId, destination));
+    }
+
+    const last: IRouteTarget = hops[hops.length - 1].target;
+
+    return {
+      hops,
+      reachesInternet:
+        last.kind === 'internetGateway' &&
+        this.internetGateways.some(({ InternetGatewayId }) => InternetGatewayId === last.id),
+    };
+  }
+
+  /**
+   * A public subnet routes Internet traffic straight to an internet gateway, a private subnet through
+   * a NAT gateway in a public subnet, and an isolated subnet not at all.
+   */
+  classifySubnet(subnetId: string): SubnetClassification {
+    const { hops, reachesInternet } = this.traceEgress(subnetId);
+
+    if (!reachesInternet) return 'isolated';
+
+    return hops.length === 1 ? 'public' : 'private';
+  }
+}
+
+/**
+ * Describes the route tables, subnets, NAT gateways and attached internet gateways of the VPC.
+ */
+export async function loadRouteTableAnalyzer(
+  vpcId: string,
+  clients: AwsClients = awsClients,
+): Promise<RouteTableAnalyzer> {
+  const filters = [{ Name: 'vpc-id', Values: [vpcId] }];
+  const [{ RouteTables = [] }, { Subnets = [] }, { NatGateways = [] }, { InternetGateways = [] }] = await Promise.all([
+    clients.ec2.send(new DescribeRouteTablesCommand({ Filters: filters })),
+    clients.ec2.send(new DescribeSubnetsCommand({ Filters: filters })),
+    clients.ec2.send(new DescribeNatGatewaysCommand({ Filter: filters })),
+    clients.ec2.send(
+      new DescribeInternetGatewaysCommand({ Filters: [{ Name: 'attachment.vpc-id', Values: [vpcId] }] }),
+    ),
+  ]);
+
+  return new RouteTableAnalyzer(
+    RouteTables,
+    Subnets,
+    NatGateways,
+    InternetGateways.filter(({ Attachments = [] }) =>
+      // EC2 reports an attached internet gateway as available, although the SDK types only list attached
+      Attachments.some(({ VpcId, State }) => VpcId === vpcId && ['attached', 'available'].includes(State)),
+    ),
+  );
+}
@@ -0,0 +1,150 @@
+import _ from 'lodash';
+import { DescribeSecurityGroupsCommand, type Instance } from '@aws-sdk/client-ec2';
+import { awsClients, type AwsClients } from '../aws/AwsClients';
+import { cidrContains } from './cidr';
+import { allowsPort, type ISecurityGroupRule, normalizeSecurityGroup, type RulePeer } from './securityGroupRules';
+
+export interface INetworkInterfaceGroups {
+  networkInterfaceId: string;
+  instanceId: string;
+  groupIds: string[];
+  // Private IPv4 and IPv6 addresses, which CIDR rules of other groups see as the source
+  addresses: string[];
+}
+
+/**
+ * A source or destination of traffic: an instance ID (i-...), a security group ID (sg-...),
+ * or an IPv4 or IPv6 address or CIDR block such as 0.0.0.0/0.
+ */
+export type TrafficEndpoint = string;
+
+export type TrafficProtocol = 'tcp' | 'udp';
+
+/**
+ * Merges the security groups of every network interface of the analyzed instances into one rule
+ * set per interface and answers which rules let traffic through.
+ */
+export class SecurityGroupAnalyzer {
+  readonly interfaces: INetworkInterfaceGroups[];
+
+  readonly rules: ISecurityGroupRule[];
+
+  constructor(interfaces: INetworkInterfaceGroups[], rules: ISecurityGroupRule[]) {
+    this.interfaces = interfaces;
+    this.rules = rules;
+  }
+
+  /**
+   * Returns the rules of all groups attached to the instance or network interface.
+   */
+  getRules(target: string): ISecurityGroupRule[] {
+    const groupIds: string[] = _.uniq(this.#getInterfaces(target).flatMap(({ groupIds: ids }) => ids));
+
+    return this.rules.filter(({ groupId }) => groupIds.includes(groupId));
+  }
+
+  /**
+   * Returns the ingress rules of the target that let the source in; none means the traffic is blocked.
+   */
+  findIngressRules(
+    source: TrafficEndpoint,
+    target: string,
+    port: number,
+    protocol: TrafficProtocol = 'tcp',
+  ): ISecurityGroupRule[] {
+    return this.#findRules('ingress', target, source, port, protocol);
+  }
+
+  /**
+   * Returns the egress rules of the source that let traffic out to the destination.
+   */
+  findEgressRules(
+    source: string,
+    destination: TrafficEndpoint,
+    port: number,
+    protocol: TrafficProtocol = 'tcp',
+  ): ISecurityGroupRule[] {
+    return this.#findRules('egress', source, destination, port, protocol);
+  }
+
+  canReach(source: TrafficEndpoint, target: string, port: number, protocol: TrafficProtocol = 'tcp'): boolean {
+    return this.findIngressRules(source, target, port, protocol).length > 0;
+  }
+
+  /**
+   * Whether an analyzed instance can open a connection to another one: its egress rules have to
+   * let the traffic out and the ingress rules of the target have to let it in.
+   */
+  canConnect(source: string, target: string, port: number, protocol: TrafficProtocol = 'tcp'): boolean {
+    return (
+      this.findEgressRules(source, target, port, protocol).length > 0 &&
+      this.findIngressRules(source, target, port, protocol).length > 0
+    );
+  }
+
+  #getInterfaces(id: string): INetworkInterfaceGroups[] {
+    const interfaces: INetworkInterfaceGroups[] = this.interfaces.filter(
+      ({ networkInterfaceId, instanceId }) => networkInterfaceId === id || instanceId === id,
+    );
+
+    if (!interfaces.length) throw new Error(`${id} is not one of the analyzed instances or network interfaces`);
+
+    return interfaces;
+  }
+
+  #findRules(
+    direction: ISecurityGroupRule['direction'],
+    owner: string,
+    peer: TrafficEndpoint,
+    port: number,
+    protocol: TrafficProtocol,
+  ): ISecurityGroupRule[] {
+    return this.getRules(owner).filter(
+      (rule) => rule.direction === direction && allowsPort(rule, port, protocol) && this.#matchesPeer(rule.peer, peer),
+    );
+  }
+
+  #matchesPeer(peer: RulePeer, endpoint: TrafficEndpoint): boolean {
+    if (/^sg-/.test(endpoint)) return peer.kind === 'securityGroup' && peer.groupId === endpoint;
+
+    if (/^(i|eni)-/.test(endpoint)) {
+      const interfaces: INetworkInterfaceGroups[] = this.#getInterfaces(endpoint);
+
+      if (peer.kind === 'securityGroup') return interfaces.some(({ groupIds }) => groupIds.includes(peer.groupId));
+
+      return (
+        peer.kind === 'cidr' &&
+        interfaces.some(({ addresses }) => addresses.some((address) => cidrContains(peer.cidr, address)))
+      );
+    }
+
+    return peer.kind === 'cidr' && cidrContains(peer.cidr, endpoint);
+  }
+}
+
+/**
+ * Describes the security groups attached to the network interfaces of the instances.
+ */
+export async function loadSecurityGroupAnalyzer(
+  instances: Instance[],
+  clients: AwsClients = awsClients,
+): Promise<SecurityGroupAnalyzer> {
+  const interfaces: INetworkInterfaceGroups[] = instances.flatMap(({ InstanceId, NetworkInterfaces = [] }) =>
+    NetworkInterfaces.map(({ NetworkInterfaceId, Groups = [], PrivateIpAddresses = [], Ipv6Addresses = [] }) => ({
+      networkInterfaceId: NetworkInterfaceId,
+      instanceId: InstanceId,
+      groupIds: Groups.map(({ GroupId }) => GroupId),
+      addresses: [
+        ...PrivateIpAddresses.map(({ PrivateIpAddress }) => PrivateIpAddress),
+        ...Ipv6Addresses.map(({ Ipv6Address }) => Ipv6Address),
+      ],
+    })),
+  );
+  const groupIds: string[] = _.uniq(interfaces.flatMap(({ groupIds: ids }) => ids));
+
+  if (!groupIds.length) return new SecurityGroupAnalyzer(interfaces, []);
+
+  const { SecurityGroups = [] } = await clients.ec2.send(new DescribeSecurityGroupsCommand({ GroupIds: groupIds }));
+
+  return new SecurityGroupAnalyzer(interfaces, SecurityGroups.flatMap(normalizeSecurityGroup));
+}
@@ -0,0 +1,81 @@
+export interface ICidr {
+  version: 4 | 6;
+  // The address as a number; host bits are kept, so 10.0.1.5/16 still describes the address 10.0.1.5
+  address: bigint;
+  prefixLength: number;
+}
+
+const AddressBits: Record<ICidr['version'], number> = { 4: 32, 6: 128 };
+
+function parseIpv4(address: string): bigint | undefined {
+  const octets: string[] = address.split('.');
+
+  if (octets.length !== 4 || octets.some((octet) => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) return undefined;
+
+  return octets.reduce((value, octet) => value * 256n + BigInt(octet), 0n);
+}
+
+function parseIpv6(address: string): bigint | undefined {
+  const halves: string[] = address.split('::');
+
+  if (halves.length > 2) return undefined;
+
+  const [head, tail] = halves.map((half) => (half ? half.split(':') : []));
+  const missing: number = 8 - head.length - (tail?.length ?? 0);
+
+  // Without :: all eight groups must be written, with it at least one group is left out
+  if (tail === undefined ? missing !== 0 : missing < 1) return undefined;
+
+  const groups: string[] = [...head, ...Array<string>(tail === undefined ? 0 : missing).fill('0'), ...(tail ?? [])];
+
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return undefined;
+
+  return groups.reduce((value, group) => value * 65536n + BigInt(`0x${group}`), 0n);
+}
+
+/**
+ * Parses an IPv4 or IPv6 CIDR block; a plain address is a block of one address (/32 or /128).
+ */
+export function parseCidr(cidr: string): ICidr {
+  const [address, prefix, ...rest] = cidr.trim().split('/');
+  const version: ICidr['version'] = address.includes(':') ? 6 : 4;
+  const value: bigint | undefined = version === 4 ? parseIpv4(address) : parseIpv6(address);
+  const prefixLength: number = prefix === undefined ? AddressBits[version] : Number(prefix);
+
+  if (
+    value === undefined ||
+    rest.length ||
+    !Number.isInteger(prefixLength) ||
+    prefixLength < 0 ||
+    prefixLength > AddressBits[version]
+  ) {
+    throw new Error(`"${cidr}" is not an IPv4 or IPv6 CIDR block`);
+  }
+
+  return { version, address: value, prefixLength };
+}
+
+function toCidr(cidr: string | ICidr): ICidr {
+  return typeof cidr === 'string' ? parseCidr(cidr) : cidr;
+}
+
+/**
+ * Whether every address of `inner` is in `outer`, e.g. 10.0.0.0/16 contains 10.0.1.0/24 and 10.0.1.5.
+ * Blocks of different IP versions never contain each other.
+ */
+export function cidrContains(outer: string | ICidr, inner: string | ICidr): boolean {
+  const a: ICidr = toCidr(outer);
+  const b: ICidr = toCidr(inner);
+
+  if (a.version !== b.version || a.prefixLength > b.prefixLength) return false;
+
+  // Both are in the same network when they only differ in the host bits of the outer block
+  const hosts: bigint = 2n ** BigInt(AddressBits[a.version] - a.prefixLength);
+
+  return a.address / hosts === b.address / hosts;
+}
+
+// 0.0.0.0/0 or ::/0
+export function isAnyAddress(cidr: string | ICidr): boolean {
+  return toCidr(cidr).prefixLength === 0;
+}
@@ -0,0 +1,152 @@
+import type { IpPermission, SecurityGroup } from '@aws-sdk/client-ec2';
+import { isAnyAddress } from './cidr';
+
+export type RuleDirection = 'ingress' | 'egress';
+
+// The other side of a rule: the source of an ingress rule or the destination of an egress rule
+export type RulePeer =
+  | { kind: 'cidr'; cidr: string }
+  | { kind: 'securityGroup'; groupId: string }
+  // Prefix lists are kept in the model but not resolved to CIDR blocks
+  | { kind: 'prefixList'; prefixListId: string };
+
+/**
+ * One IpPermission split per peer, so that every rule allows one port range to or from one peer.
+ */
+export interface ISecurityGroupRule {
+  groupId: string;
+  direction: RuleDirection;
+  // tcp, udp, icmp, icmpv6, a protocol number or all
+  protocol: string;
+  // 0-65535 when the rule covers every port; the ICMP type and code for ICMP rules
+  fromPort: number;
+  toPort: number;
+  peer: RulePeer;
+  description?: string;
+}
+
+export interface IRiskyRule {
+  rule: ISecurityGroupRule;
+  // e.g. 'SSH (22) is open to 0.0.0.0/0'
+  reason: string;
+}
+
+// Ports of remote access and database services that should not be reachable from anywhere
+export const RiskyPorts: Record<number, string> = {
+  22: 'SSH',
+  1433: 'SQL Server',
+  3306: 'MySQL',
+  3389: 'RDP',
+  5432: 'PostgreSQL',
+  6379: 'Redis',
+  9200: 'Elasticsearch',
+  27017: 'MongoDB',
+};
+
+// EC2 returns the names of common protocols, but keeps the number when the rule was created with one
+const ProtocolNames: Record<string, string> = { '-1': 'all', '1': 'icmp', '6': 'tcp', '17': 'udp', '58': 'icmpv6' };
+
+function toRules(groupId: string, direction: RuleDirection, permission: IpPermission): ISecurityGroupRule[] {
+  const {
+    IpProtocol,
+    FromPort,
+    ToPort,
+    IpRanges = [],
+    Ipv6Ranges = [],
+    UserIdGroupPairs = [],
+    PrefixListIds = [],
+  } = permission;
+  const protocol: string = ProtocolNames[IpProtocol] ?? IpProtocol;
+  const allPorts: boolean = protocol === 'all' || FromPort === undefined || FromPort === -1;
+  const base = { groupId, direction, protocol, fromPort: allPorts ? 0 : FromPort, toPort: allPorts ? 65535 : ToPort };
+
+  return [
+    ...IpRanges.map(({ CidrIp, Description }) => ({ peer: { kind: 'cidr', cidr: CidrIp }, description: Description })),
+    ...Ipv6Ranges.map(({ CidrIpv6, Description }) => ({
+      peer: { kind: 'cidr', cidr: CidrIpv6 },
+      description: Description,
+    })),
+    ...UserIdGroupPairs.map(({ GroupId, Description }) => ({
+      peer: { kind: 'securityGroup', groupId: GroupId },
+      description: Description,
+    })),
+    ...PrefixListIds.map(({ PrefixListId, Description }) => ({
+      peer: { kind: 'prefixList', prefixListId: PrefixListId },
+      description: Description,
+    })),
+  ].map((rule) => ({ ...base, ...(rule as Pick<ISecurityGroupRule, 'peer' | 'description'>) }));
+}
+
+export function normalizeSecurityGroup({
+  GroupId,
+  IpPermissions = [],
+  IpPermissionsEgress = [],
+}: SecurityGroup): ISecurityGroupRule[] {
+  return [
+    ...IpPermissions.flatMap((permission) => toRules(GroupId, 'ingress', permission)),
+    ...IpPermissionsEgress.flatMap((permission) => toRules(GroupId, 'egress', permission)),
+  ];
+}
+
+// Whether the rule allows traffic to a port over a protocol such as tcp or udp
+export function allowsPort(rule: ISecurityGroupRule, port: number, protocol: string): boolean {
+  return rule.protocol === 'all' || (rule.protocol === protocol && port >= rule.fromPort && port <= rule.toPort);
+}
+
+function formatPeer(peer: RulePeer): string {
+  switch (peer.kind) {
+    case 'cidr':
+      return peer.cidr;
+    case 'securityGroup':
+      return peer.groupId;
+    default:
+      return peer.prefixListId;
+  }
+}
+
+function formatPorts({ protocol, fromPort, toPort }: ISecurityGroupRule): string {
+  if (protocol === 'all') return 'all traffic';
+
+  return fromPort === toPort ? `${protocol} ${fromPort}` : `${protocol} ${fromPort}-${toPort}`;
+}
+
+// e.g. sg-0123 ingress tcp 22 from 0.0.0.0/0 "SSH from Internet"
+export function formatSecurityGroupRule(rule: ISecurityGroupRule): string {
+  const { groupId, direction, peer, description } = rule;
+
+  return [
+    groupId,
+    direction,
+    formatPorts(rule),
+    direction === 'ingress' ? 'from' : 'to',
+    formatPeer(peer),
+    description && `"${description}"`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Finds the ingress rules that open all traffic, or one of the risky ports, to every IPv4 or IPv6 address.
+ */
+export function findRiskyRules(
+  rules: ISecurityGroupRule[],
+  riskyPorts: Record<number, string> = RiskyPorts,
+): IRiskyRule[] {
+  return rules
+    .filter(({ direction, peer }) => direction === 'ingress' && peer.kind === 'cidr' && isAnyAddress(peer.cidr))
+    .map((rule): IRiskyRule => {
+      const { cidr } = rule.peer as { cidr: string };
+
+      if (rule.protocol === 'all') return { rule, reason: `all traffic is open to ${cidr}` };
+
+      const ports: string[] = Object.entries(riskyPorts)
+        .filter(([port]) => allowsPort(rule, Number(port), 'tcp'))
+        .map(([port, service]) => `${service} (${port})`);
+
+      return ports.length
+        ? { rule, reason: `${ports.join(', ')} ${ports.length > 1 ? 'are' : 'is'} open to ${cidr}` }
+        : undefined;
+    })
+    .filter(Boolean);
+}
@@ -0,0 +1,133 @@
+import { getLogger, type Logger } from './logger';
+import { RetryError } from './errors/RetryError';
+
+const logger: Logger = getLogger('retry');
+
+export interface IRetryAttempt {
+  attempt: number;
+  elapsedMs: number;
+  nextDelayMs: number;
+  error: unknown;
+}
+
+export interface IRetryOptions<T> {
+  // Used in logs and in the final error, e.g. 'Mailtrap message "AWS Notification Message"'
+  description?: string;
+  // Overall deadline for all attempts and delays
+  timeout?: number;
+  maxAttempts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  // Fraction of each delay that is randomized, 0 disables jitter
+  jitter?: number;
+  // Results that do not satisfy the predicate are retried like retryable errors
+  until?: (result: T) => boolean;
+  // Errors for which the predicate returns false are rethrown immediately
+  isRetryable?: (error: unknown) => boolean;
+  // Delay in ms requested by the failed attempt, e.g. a Retry-After header; replaces the backoff delay
+  retryAfter?: (error: unknown) => number | undefined;
+  signal?: AbortSignal;
+  onRetry?: (attempt: IRetryAttempt) => void;
+}
+
+export const RetryDefaults = {
+  timeout: 60_000,
+  maxAttempts: Infinity,
+  initialDelay: 1_000,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+export function getBackoffDelay(
+  attempt: number,
+  {
+    initialDelay,
+    maxDelay,
+    factor,
+    jitter,
+  }: Pick<typeof RetryDefaults, 'initialDelay' | 'maxDelay' | 'factor' | 'jitter'>,
+  random: () => number = Math.random,
+): number {
+  const delay: number = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+
+  return Math.round(delay * (1 - jitter + 2 * jitter * random()));
+}
+
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer: NodeJS.Timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls `action` until it returns a result accepted by `until`, backing off exponentially with
+ * jitter between attempts. Gives up with a RetryError describing the attempts made, the elapsed
+ * time and the last error when the deadline or the attempt limit is reached, or when aborted.
+ */
+export async function retry<T>(action: (attempt: number) => Promise<T>, options: IRetryOptions<T> = {}): Promise<T> {
+  const {
+    description = 'Retry',
+    until = () => true,
+    isRetryable = () => true,
+    retryAfter = (): number | undefined => undefined,
+    signal,
+    onRetry = ({ attempt, nextDelayMs, error }) =>
+      logger.info(
+        `${description}: attempt ${attempt} failed (${error instanceof Error ? error.message : String(error)}), ` +
+          `retrying in ${nextDelayMs}ms`,
+      ),
+    ...rest
+  } = options;
+  const settings = { ...RetryDefaults, ...rest };
+
+  const startedAt: number = Date.now();
+  const elapsed = (): number => Date.now() - startedAt;
+
+  let attempt: number = 0;
+  let lastError: unknown;
+
+  while (!signal?.aborted) {
+    attempt += 1;
+
+    try {
+      const result: T = await action(attempt);
+
+      if (until(result)) return result;
+
+      lastError = new Error('the result does not satisfy the condition yet');
+    } catch (error) {
+      if (!isRetryable(error)) throw error;
+
+      lastError = error;
+    }
+
+    const remaining: number = settings.timeout - elapsed();
+
+    if (attempt >= settings.maxAttempts) {
+      throw new RetryError({ description, reason: 'attempts', attempts: attempt, elapsedMs: elapsed(), lastError });
+    }
+
+    if (remaining <= 0) {
+      throw new RetryError({ description, reason: 'deadline', attempts: attempt, elapsedMs: elapsed(), lastError });
+    }
+
+    const nextDelayMs: number = Math.min(remaining, retryAfter(lastError) ?? getBackoffDelay(attempt, settings));
+
+    onRetry({ attempt, elapsedMs: elapsed(), nextDelayMs, error: lastError });
+
+    await sleep(nextDelayMs, signal);
+  }
+
+  throw new RetryError({ description, reason: 'aborted', attempts: attempt, elapsedMs: elapsed(), lastError });
+}
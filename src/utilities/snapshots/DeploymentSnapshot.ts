@@ -0,0 +1,300 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import _ from 'lodash';
+import {
+  DescribeRouteTablesCommand,
+  DescribeSecurityGroupsCommand,
+  DescribeSubnetsCommand,
+  DescribeVolumesCommand,
+  type Tag,
+  type VolumeAttachment,
+} from '@aws-sdk/client-ec2';
+import {
+  GetBucketEncryptionCommand,
+  GetBucketPolicyStatusCommand,
+  GetBucketTaggingCommand,
+  GetBucketVersioningCommand,
+  GetPublicAccessBlockCommand,
+} from '@aws-sdk/client-s3';
+import { GetTopicAttributesCommand } from '@aws-sdk/client-sns';
+import { GetQueueAttributesCommand } from '@aws-sdk/client-sqs';
+import { DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { paginateDescribeLogGroups } from '@aws-sdk/client-cloudwatch-logs';
+import { DescribeTrailsCommand } from '@aws-sdk/client-cloudtrail';
+import { awsClients, type AwsClients } from '../aws/AwsClients';
+import {
+  type DeploymentContext,
+  type DeploymentLookupKey,
+  getDeploymentContext,
+  type IDeployedInstance,
+} from '../aws/DeploymentContext';
+import type { IStackProfile } from '../../stacks/StackProfiles';
+import { normalizeSnapshotValue } from './snapshotMasking';
+
+export const SnapshotSections = [
+  'instances',
+  'volumes',
+  'securityGroups',
+  'subnets',
+  'routeTables',
+  'buckets',
+  'rdsInstances',
+  'topics',
+  'queues',
+  'tables',
+  'lambdaFunctions',
+  'logGroups',
+  'trails',
+] as const;
+
+export type SnapshotSection = (typeof SnapshotSections)[number];
+
+// Resources of each section by a name that survives redeployments, e.g. the CloudFormation logical ID
+export type DeploymentSnapshot = Record<SnapshotSection, Record<string, unknown>>;
+
+// S3 reports a bucket setting that was never configured as an error
+const MissingBucketSettingErrors: string[] = [
+  'NoSuchBucketPolicy',
+  'NoSuchPublicAccessBlockConfiguration',
+  'NoSuchTagSet',
+  'ServerSideEncryptionConfigurationNotFoundError',
+];
+
+function getTag(tags: Tag[] | undefined, key: string): string | undefined {
+  return tags?.find(({ Key }) => Key === key)?.Value;
+}
+
+function getResourceName(tags: Tag[], fallback: string): string {
+  return getTag(tags, 'aws:cloudformation:logical-id') ?? getTag(tags, 'Name') ?? fallback;
+}
+
+function byName<T>(resources: T[], getName: (resource: T) => string): Record<string, T> {
+  return Object.fromEntries(resources.map((resource) => [getName(resource), resource]));
+}
+
+async function unlessMissing<T>(request: Promise<T>): Promise<T | undefined> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof Error && MissingBucketSettingErrors.includes(error.name)) return undefined;
+
+    throw error;
+  }
+}
+
+function isConfigured(profile: IStackProfile, key: DeploymentLookupKey): boolean {
+  return Boolean(profile.outputKeys?.[key] || profile.logicalIds[key] || profile.prefixes[key]);
+}
+
+/**
+ * Describes the resources of one deployed stack with the same SDK calls the specs make. The
+ * result is normalized (see normalizeSnapshotValue), so it can be compared with an approved baseline.
+ */
+export class DeploymentSnapshotCapture {
+  readonly #profile: IStackProfile;
+
+  readonly #deployment: DeploymentContext;
+
+  readonly #clients: AwsClients;
+
+  constructor(profile: IStackProfile, clients: AwsClients = awsClients) {
+    this.#profile = profile;
+    this.#deployment = getDeploymentContext(profile);
+    this.#clients = clients;
+  }
+
+  async capture(): Promise<DeploymentSnapshot> {
+    const { instances } = await this.#deployment.resolve('instances');
+    const instanceIds: string[] = instances.map(({ id }) => id);
+    const vpcIds: string[] = _.uniq(instances.map(({ vpcId }) => vpcId));
+    const groupIds: string[] = _.uniq(
+      instances.flatMap(({ instance }) => (instance.SecurityGroups ?? []).map(({ GroupId }) => GroupId)),
+    );
+
+    const sections: [SnapshotSection, Promise<Record<string, unknown>>][] = [
+      ['instances', Promise.resolve(this.#getInstances(instances))],
+      ['volumes', this.#getVolumes(instances, instanceIds)],
+      ['securityGroups', this.#getSecurityGroups(groupIds)],
+      ['subnets', this.#getSubnets(vpcIds)],
+      ['routeTables', this.#getRouteTables(vpcIds)],
+      ['buckets', this.#getBuckets()],
+      ['rdsInstances', this.#getRdsInstances()],
+      ['topics', this.#getTopics()],
+      ['queues', this.#getQueues()],
+      ['tables', this.#getTables()],
+      ['lambdaFunctions', this.#getLambdaFunctions()],
+      ['logGroups', this.#getLogGroups()],
+      ['trails', this.#getTrails()],
+    ];
+
+    const resources: Record<string, unknown>[] = await Promise.all(sections.map(([, section]) => section));
+
+    return Object.fromEntries(
+      sections.map(([name], index) => [name, normalizeSnapshotValue(resources[index]) ?? {}]),
+    ) as DeploymentSnapshot;
+  }
+
+  #getInstances(instances: IDeployedInstance[]): Record<string, unknown> {
+    return byName(
+      instances.map(({ instance }) => instance),
+      (instance) => getResourceName(instance.Tags, instance.InstanceId),
+    );
+  }
+
+  async #getVolumes(instances: IDeployedInstance[], instanceIds: string[]): Promise<Record<string, unknown>> {
+    if (!instanceIds.length) return {};
+
+    const { Volumes = [] } = await this.#clients.ec2.send(
+      new DescribeVolumesCommand({ Filters: [{ Name: 'attachment.instance-id', Values: instanceIds }] }),
+    );
+
+    // Volumes are named after the instance and the device they are attached to
+    return byName(Volumes, ({ VolumeId, Attachments = [] }) => {
+      const attachment: VolumeAttachment = Attachments[0];
+      const instance: IDeployedInstance = instances.find(({ id }) => id === attachment?.InstanceId);
+
+      return instance ? `${getResourceName(instance.tags, instance.id)} ${attachment.Device}` : VolumeId;
+    });
+  }
+
+  async #getSecurityGroups(groupIds: string[]): Promise<Record<string, unknown>> {
+    if (!groupIds.length) return {};
+
+    const { SecurityGroups = [] } = await this.#clients.ec2.send(
+      new DescribeSecurityGroupsCommand({ GroupIds: groupIds }),
+    );
+
+    return byName(SecurityGroups, ({ Tags, GroupName }) => getResourceName(Tags, GroupName));
+  }
+
+  async #getSubnets(vpcIds: string[]): Promise<Record<string, unknown>> {
+    if (!vpcIds.length) return {};
+
+    const { Subnets = [] } = await this.#clients.ec2.send(
+      new DescribeSubnetsCommand({ Filters: [{ Name: 'vpc-id', Values: vpcIds }] }),
+    );
+
+    return byName(Subnets, ({ Tags, SubnetId }) => getResourceName(Tags, SubnetId));
+  }
+
+  async #getRouteTables(vpcIds: string[]): Promise<Record<string, unknown>> {
+    if (!vpcIds.length) return {};
+
+    const { RouteTables = [] } = await this.#clients.ec2.send(
+      new DescribeRouteTablesCommand({ Filters: [{ Name: 'vpc-id', Values: vpcIds }] }),
+    );
+
+    return byName(RouteTables, ({ Tags, RouteTableId, Associations = [] }) =>
+      Associations.some(({ Main }) => Main) ? 'main' : getResourceName(Tags, RouteTableId),
+    );
+  }
+
+  async #getBuckets(): Promise<Record<string, unknown>> {
+    if (!isConfigured(this.#profile, 'bucket')) return {};
+
+    const { bucketName: Bucket } = await this.#deployment.resolve('bucketName');
+    const { s3 } = this.#clients;
+    const [versioning, encryption, publicAccessBlock, policyStatus, tagging] = await Promise.all([
+      s3.send(new GetBucketVersioningCommand({ Bucket })),
+      unlessMissing(s3.send(new GetBucketEncryptionCommand({ Bucket }))),
+      unlessMissing(s3.send(new GetPublicAccessBlockCommand({ Bucket }))),
+      unlessMissing(s3.send(new GetBucketPolicyStatusCommand({ Bucket }))),
+      unlessMissing(s3.send(new GetBucketTaggingCommand({ Bucket }))),
+    ]);
+
+    return {
+      [Bucket]: {
+        Versioning: _.pick(versioning, ['Status', 'MFADelete']),
+        Encryption: encryption?.ServerSideEncryptionConfiguration,
+        PublicAccessBlock: publicAccessBlock?.PublicAccessBlockConfiguration,
+        PolicyStatus: policyStatus?.PolicyStatus,
+        Tags: tagging?.TagSet,
+      },
+    };
+  }
+
+  async #getRdsInstances(): Promise<Record<string, unknown>> {
+    if (!isConfigured(this.#profile, 'rdsInstance')) return {};
+
+    const { rdsInstance } = await this.#deployment.resolve('rdsInstance');
+
+    return { [rdsInstance.identifier]: rdsInstance.instance };
+  }
+
+  async #getTopics(): Promise<Record<string, unknown>> {
+    if (!isConfigured(this.#profile, 'topic')) return {};
+
+    const { topicArn: TopicArn } = await this.#deployment.resolve('topicArn');
+    const { Attributes } = await this.#clients.sns.send(new GetTopicAttributesCommand({ TopicArn }));
+
+    return { [TopicArn.split(':').pop()]: Attributes };
+  }
+
+  async #getQueues(): Promise<Record<string, unknown>> {
+    if (!isConfigured(this.#profile, 'queue')) return {};
+
+    const { queueUrl: QueueUrl } = await this.#deployment.resolve('queueUrl');
+    const { Attributes } = await this.#clients.sqs.send(
+      new GetQueueAttributesCommand({ QueueUrl, AttributeNames: ['All'] }),
+    );
+
+    return { [QueueUrl.split('/').pop()]: Attributes };
+  }
+
+  async #getTables(): Promise<Record<string, unknown>> {
+    if (!isConfigured(this.#profile, 'table')) return {};
+
+    const { tableName: TableName } = await this.#deployment.resolve('tableName');
+    const { Table } = await this.#clients.dynamoDB.send(new DescribeTableCommand({ TableName }));
+
+    return { [TableName]: Table };
+  }
+
+  async #getLambdaFunctions(): Promise<Record<string, unknown>> {
+    if (!isConfigured(this.#profile, 'lambdaFunction')) return {};
+
+    const { lambdaFunction } = await this.#deployment.resolve('lambdaFunction');
+
+    return { [lambdaFunction.FunctionName]: lambdaFunction };
+  }
+
+  // Log groups and trails are not looked up through the stack; their names contain the stack name
+  async #getLogGroups(): Promise<Record<string, unknown>> {
+    const logGroups: Record<string, unknown> = {};
+
+    for await (const page of paginateDescribeLogGroups({ client: this.#clients.cloudWatchLogs }, {})) {
+      (page.logGroups ?? [])
+        .filter(({ logGroupName }) => logGroupName.includes(this.#profile.stackName))
+        .forEach((logGroup) => {
+          logGroups[logGroup.logGroupName] = logGroup;
+        });
+    }
+
+    return logGroups;
+  }
+
+  async #getTrails(): Promise<Record<string, unknown>> {
+    const { trailList = [] } = await this.#clients.cloudTrail.send(new DescribeTrailsCommand({}));
+
+    return byName(
+      trailList.filter(({ Name }) => Name.includes(this.#profile.stackName)),
+      ({ Name }) => Name,
+    );
+  }
+}
+
+export function getBaselinePath(stack: string, directory: string = join(process.cwd(), 'baselines')): string {
+  return join(directory, `${stack}.json`);
+}
+
+/**
+ * Returns the approved snapshot, or undefined when none has been approved yet.
+ */
+export function loadBaseline(path: string): DeploymentSnapshot | undefined {
+  return existsSync(path) ? (JSON.parse(readFileSync(path, 'utf8')) as DeploymentSnapshot) : undefined;
+}
+
+export function saveBaseline(path: string, snapshot: DeploymentSnapshot): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
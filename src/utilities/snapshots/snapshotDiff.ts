@@ -0,0 +1,67 @@
+import _ from 'lodash';
+
+export type SnapshotChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ISnapshotChange {
+  // e.g. securityGroups.PublicSecurityGroup.IpPermissions[]
+  path: string;
+  kind: SnapshotChangeKind;
+  baseline?: unknown;
+  current?: unknown;
+}
+
+function appendKey(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) return path ? `${path}.${key}` : key;
+
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Lists the differences between two normalized snapshot values. Objects are compared field by
+ * field; arrays are sorted by the normalization, so their elements are compared as sets and
+ * reported at '{path}[]'.
+ */
+export function diffSnapshotValues(baseline: unknown, current: unknown, path: string = ''): ISnapshotChange[] {
+  if (_.isEqual(baseline, current)) return [];
+
+  if (_.isPlainObject(baseline) && _.isPlainObject(current)) {
+    const before = baseline as Record<string, unknown>;
+    const after = current as Record<string, unknown>;
+
+    return _.union(Object.keys(before), Object.keys(after))
+      .sort()
+      .flatMap((key): ISnapshotChange[] => {
+        const keyPath: string = appendKey(path, key);
+
+        if (!(key in after)) return [{ path: keyPath, kind: 'removed', baseline: before[key] }];
+        if (!(key in before)) return [{ path: keyPath, kind: 'added', current: after[key] }];
+
+        return diffSnapshotValues(before[key], after[key], keyPath);
+      });
+  }
+
+  if (Array.isArray(baseline) && Array.isArray(current)) {
+    return [
+      ..._.differenceWith(baseline, current, (a, b) => _.isEqual(a, b)).map(
+        (item): ISnapshotChange => ({ path: `${path}[]`, kind: 'removed', baseline: item }),
+      ),
+      ..._.differenceWith(current, baseline, (a, b) => _.isEqual(a, b)).map(
+        (item): ISnapshotChange => ({ path: `${path}[]`, kind: 'added', current: item }),
+      ),
+    ];
+  }
+
+  return [{ path, kind: 'changed', baseline, current }];
+}
+
+// '+ path: value' for additions, '- path: value' for removals, '~ path: before → after' for changes
+export function formatSnapshotChange({ path, kind, baseline, current }: ISnapshotChange): string {
+  switch (kind) {
+    case 'added':
+      return `+ ${path}: ${JSON.stringify(current)}`;
+    case 'removed':
+      return `- ${path}: ${JSON.stringify(baseline)}`;
+    default:
+      return `~ ${path}: ${JSON.stringify(baseline)} → ${JSON.stringify(current)}`;
+  }
+}
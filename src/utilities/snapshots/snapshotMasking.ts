@@ -0,0 +1,80 @@
+import _ from 'lodash';
+
+// Fields that change without anything being redeployed (counters, sizes, tokens) or with every new network interface
+const VolatileFields: string[] = [
+  'ApproximateNumberOfMessages',
+  'ApproximateNumberOfMessagesDelayed',
+  'ApproximateNumberOfMessagesNotVisible',
+  'ClientToken',
+  'ItemCount',
+  'MacAddress',
+  'RevisionId',
+  'SubscriptionsConfirmed',
+  'SubscriptionsDeleted',
+  'SubscriptionsPending',
+  'TableSizeBytes',
+  'storedBytes',
+];
+
+// Timestamps, DNS names and endpoint addresses, which are derived from the IP or the physical ID. Case-sensitive,
+// so that Time only matches as a word of its own (LaunchTime, creationTime) and not in Runtime
+const VolatileFieldPattern: RegExp = /(Time|Date|DateTime|Timestamp|Modified|ValidTill|DnsName|^Address)$/;
+
+// Masks are applied in order; the resource ID mask keeps the prefix, e.g. sg-<id>
+const VolatileValues: [RegExp, string][] = [
+  [/\b\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+  // IPv4 addresses, but not CIDR blocks such as 10.0.0.0/16
+  [/\b\d{1,3}(?:\.\d{1,3}){3}\b(?!\/)/g, '<ip>'],
+  [
+    /\b(ami|eipalloc|eni|i|igw|nat|r|rtb|rtbassoc|sg|sgr|snap|subnet|subnet-assoc|vol|vpc|vpce)-[0-9a-f]{8,17}\b/g,
+    '$1-<id>',
+  ],
+  [/\b(db|cluster)-[A-Z0-9]{26}\b/g, '$1-<id>'],
+  // Account IDs in ARNs, queue URLs and owner fields
+  [/\b\d{12}\b/g, '<account>'],
+  // CDK physical names end with the hash of the logical ID and a suffix that changes when the resource is replaced
+  [/([0-9A-Fa-f]{8})-[A-Za-z0-9]{8,13}\b/g, '$1-<suffix>'],
+];
+
+export function maskValue(value: string): string {
+  return VolatileValues.reduce((masked, [pattern, replacement]) => masked.replace(pattern, replacement), value);
+}
+
+/**
+ * Normalizes a resource description for the snapshot: volatile fields and values are masked,
+ * tag lists become maps, undefined fields are dropped and arrays are sorted, so that the same
+ * deployment always produces the same snapshot.
+ */
+export function normalizeSnapshotValue(value: unknown, field?: string): unknown {
+  if (value === undefined || value === null) return undefined;
+
+  if (field && (VolatileFields.includes(field) || VolatileFieldPattern.test(field))) return '<masked>';
+
+  if (value instanceof Date) return '<timestamp>';
+
+  if (typeof value === 'string') return maskValue(value);
+
+  if (Array.isArray(value)) {
+    if (field === 'Tags' || field === 'TagList') {
+      return normalizeSnapshotValue(Object.fromEntries(value.map(({ Key, Value }) => [Key, Value])));
+    }
+
+    return _.sortBy(
+      value.map((item) => normalizeSnapshotValue(item)),
+      (item) => JSON.stringify(item),
+    );
+  }
+
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        // $metadata holds the request ID of the SDK response
+        .filter(([key]) => key !== '$metadata')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [maskValue(key), normalizeSnapshotValue(item, key)])
+        .filter(([, item]) => item !== undefined),
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,70 @@
+import type { Server } from 'net';
+import type { Client } from 'ssh2';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { type ForwardOptions, type ServerOptions, type SshOptions, type TunnelOptions, createTunnel } from 'tunnel-ssh';
+import { cleanupRegistry } from './cleanup/CleanupRegistry';
+
+export interface ISshTunnelOptions {
+  host: string;
+  dstAddr: string;
+  dstPort: number;
+  localPort?: number;
+  username?: string;
+  privateKeyFile?: string;
+  autoClose?: boolean;
+}
+
+export interface ISshTunnel {
+  localPort: number;
+  server: Server;
+  client: Client;
+  // Safe to call more than once; also called by the cleanup registry if the test does not
+  close(): void;
+}
+
+export async function openSshTunnel({
+  host,
+  dstAddr,
+  dstPort,
+  localPort = 3306,
+  username = 'ec2-user',
+  privateKeyFile = 'cloudximage-us-east-1.pem',
+  autoClose = true,
+}: ISshTunnelOptions): Promise<ISshTunnel> {
+  const sshOptions: SshOptions = {
+    host,
+    username,
+    privateKey: readFileSync(join(process.cwd(), 'credentials', privateKeyFile), 'utf8'),
+    port: 22,
+  };
+
+  const forwardOptions: ForwardOptions = {
+    srcAddr: '127.0.0.1',
+    srcPort: localPort,
+    dstAddr,
+    dstPort,
+  };
+
+  const tunnelOptions: TunnelOptions = {
+    autoClose,
+  };
+
+  const serverOptions: ServerOptions = {
+    port: localPort,
+  };
+
+  const [server, client] = await createTunnel(tunnelOptions, serverOptions, sshOptions, forwardOptions);
+
+  let unregister: () => void = null;
+
+  const close = (): void => {
+    unregister();
+    if (server.listening) server.close();
+    client.end();
+  };
+
+  unregister = cleanupRegistry.register(`Close SSH tunnel to ${dstAddr}:${dstPort} via ${host}`, close);
+
+  return { localPort, server, client, close };
+}
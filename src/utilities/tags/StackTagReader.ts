@@ -0,0 +1,270 @@
+import { DescribeAddressesCommand, paginateDescribeTags } from '@aws-sdk/client-ec2';
+import { GetBucketTaggingCommand } from '@aws-sdk/client-s3';
+import { DescribeDBInstancesCommand, ListTagsForResourceCommand as ListRdsTagsCommand } from '@aws-sdk/client-rds';
+import { ListTagsForResourceCommand as ListTopicTagsCommand } from '@aws-sdk/client-sns';
+import { ListQueueTagsCommand } from '@aws-sdk/client-sqs';
+import { DescribeTableCommand, ListTagsOfResourceCommand } from '@aws-sdk/client-dynamodb';
+import { GetFunctionCommand, ListTagsCommand as ListFunctionTagsCommand } from '@aws-sdk/client-lambda';
+import { GetTrailCommand, ListTagsCommand as ListTrailTagsCommand } from '@aws-sdk/client-cloudtrail';
+import {
+  DescribeLogGroupsCommand,
+  ListTagsForResourceCommand as ListLogGroupTagsCommand,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { GetInstanceProfileCommand, GetRoleCommand, GetUserCommand, ListPolicyTagsCommand } from '@aws-sdk/client-iam';
+import { awsClients, type AwsClients } from '../aws/AwsClients';
+import { CloudFormationStack, type IStackResource } from '../aws/CloudFormationStack';
+import { type IArn, parseArn } from '../aws/arn';
+import type { ITaggedResource } from './tagRules';
+
+interface ITagList {
+  Key?: string;
+  Value?: string;
+}
+
+interface IResourceTags {
+  arn: string;
+  tags: Record<string, string>;
+}
+
+type TagReader = (physicalId: string, clients: AwsClients, stackArn: IArn) => Promise<IResourceTags>;
+
+// ARN resource prefixes of the EC2 resource types, whose tags are read with a single DescribeTags call
+const Ec2ResourceKinds: Record<string, string> = {
+  'AWS::EC2::Instance': 'instance',
+  'AWS::EC2::InternetGateway': 'internet-gateway',
+  'AWS::EC2::LaunchTemplate': 'launch-template',
+  'AWS::EC2::NatGateway': 'natgateway',
+  'AWS::EC2::NetworkInterface': 'network-interface',
+  'AWS::EC2::RouteTable': 'route-table',
+  'AWS::EC2::SecurityGroup': 'security-group',
+  'AWS::EC2::Subnet': 'subnet',
+  'AWS::EC2::VPC': 'vpc',
+  'AWS::EC2::Volume': 'volume',
+};
+
+// Resource types that cannot have tags; the resources of any other type without a reader are reported as unchecked
+const UntaggableResourceTypes: string[] = [
+  'AWS::CDK::Metadata',
+  'AWS::CloudFormation::CustomResource',
+  'AWS::EC2::Route',
+  'AWS::EC2::SecurityGroupEgress',
+  'AWS::EC2::SecurityGroupIngress',
+  'AWS::EC2::SubnetRouteTableAssociation',
+  'AWS::EC2::VPCGatewayAttachment',
+  // IAM groups do not support tags
+  'AWS::IAM::Group',
+  'AWS::IAM::Policy',
+  'AWS::IAM::UserToGroupAddition',
+  'AWS::Lambda::Permission',
+  'AWS::S3::BucketPolicy',
+  'AWS::SNS::Subscription',
+  'AWS::SNS::TopicPolicy',
+  'AWS::SQS::QueuePolicy',
+];
+
+function toTagMap(tags: ITagList[] = []): Record<string, string> {
+  return Object.fromEntries(tags.map(({ Key, Value }) => [Key, Value]));
+}
+
+// Every service has its own way to return tags; these readers return them as one shape
+const TagReaders: Record<string, TagReader> = {
+  'AWS::S3::Bucket': async function (bucket, clients, { partition }) {
+    const arn = `arn:${partition}:s3:::${bucket}`;
+
+    try {
+      const { TagSet } = await clients.s3.send(new GetBucketTaggingCommand({ Bucket: bucket }));
+
+      return { arn, tags: toTagMap(TagSet) };
+    } catch (error) {
+      // A bucket without tags has no tag set at all
+      if (error instanceof Error && error.name === 'NoSuchTagSet') return { arn, tags: {} };
+
+      throw error;
+    }
+  },
+
+  'AWS::RDS::DBInstance': async function (identifier, clients) {
+    const { DBInstances } = await clients.rds.send(
+      new DescribeDBInstancesCommand({ DBInstanceIdentifier: identifier }),
+    );
+
+    return { arn: DBInstances[0].DBInstanceArn, tags: toTagMap(DBInstances[0].TagList) };
+  },
+
+  'AWS::RDS::DBSubnetGroup': async function (name, clients, { partition, region, accountId }) {
+    const arn = `arn:${partition}:rds:${region}:${accountId}:subgrp:${name}`;
+    const { TagList } = await clients.rds.send(new ListRdsTagsCommand({ ResourceName: arn }));
+
+    return { arn, tags: toTagMap(TagList) };
+  },
+
+  // The physical ID of an Elastic IP is its allocation ID or, in older stacks, its address
+  'AWS::EC2::EIP': async function (physicalId, clients, { partition, region, accountId }) {
+    const { Addresses } = await clients.ec2.send(
+      new DescribeAddressesCommand(
+        physicalId.startsWith('eipalloc-') ? { AllocationIds: [physicalId] } : { PublicIps: [physicalId] },
+      ),
+    );
+
+    return {
+      arn: `arn:${partition}:ec2:${region}:${accountId}:elastic-ip/${Addresses[0].AllocationId}`,
+      tags: toTagMap(Addresses[0].Tags),
+    };
+  },
+
+  // The physical ID of a topic is its ARN
+  'AWS::SNS::Topic': async function (arn, clients) {
+    const { Tags } = await clients.sns.send(new ListTopicTagsCommand({ ResourceArn: arn }));
+
+    return { arn, tags: toTagMap(Tags) };
+  },
+
+  // The physical ID of a queue is its URL: https://sqs.{region}.amazonaws.com/{account}/{name}
+  'AWS::SQS::Queue': async function (queueUrl, clients, { partition, region }) {
+    const [accountId, name] = new URL(queueUrl).pathname.split('/').slice(1);
+    const { Tags = {} } = await clients.sqs.send(new ListQueueTagsCommand({ QueueUrl: queueUrl }));
+
+    return { arn: `arn:${partition}:sqs:${region}:${accountId}:${name}`, tags: Tags };
+  },
+
+  'AWS::DynamoDB::Table': async function (tableName, clients) {
+    const { Table } = await clients.dynamoDB.send(new DescribeTableCommand({ TableName: tableName }));
+    const { Tags } = await clients.dynamoDB.send(new ListTagsOfResourceCommand({ ResourceArn: Table.TableArn }));
+
+    return { arn: Table.TableArn, tags: toTagMap(Tags) };
+  },
+
+  'AWS::Lambda::Function': async function (functionName, clients) {
+    const { Configuration, Tags = {} } = await clients.lambda.send(
+      new GetFunctionCommand({ FunctionName: functionName }),
+    );
+
+    return { arn: Configuration.FunctionArn, tags: Tags };
+  },
+
+  // The physical ID of an event source mapping is its UUID
+  'AWS::Lambda::EventSourceMapping': async function (uuid, clients, { partition, region, accountId }) {
+    const arn = `arn:${partition}:lambda:${region}:${accountId}:event-source-mapping:${uuid}`;
+    const { Tags = {} } = await clients.lambda.send(new ListFunctionTagsCommand({ Resource: arn }));
+
+    return { arn, tags: Tags };
+  },
+
+  'AWS::CloudTrail::Trail': async function (name, clients) {
+    const { Trail } = await clients.cloudTrail.send(new GetTrailCommand({ Name: name }));
+    const { ResourceTagList = [] } = await clients.cloudTrail.send(
+      new ListTrailTagsCommand({ ResourceIdList: [Trail.TrailARN] }),
+    );
+
+    return { arn: Trail.TrailARN, tags: toTagMap(ResourceTagList[0]?.TagsList) };
+  },
+
+  'AWS::Logs::LogGroup': async function (logGroupName, clients) {
+    const { logGroups = [] } = await clients.cloudWatchLogs.send(
+      new DescribeLogGroupsCommand({ logGroupNamePrefix: logGroupName }),
+    );
+    // DescribeLogGroups returns the ARN with a trailing :*, the tagging API expects it without
+    const arn: string = logGroups.find((logGroup) => logGroup.logGroupName === logGroupName).arn.replace(/:\*$/, '');
+    const { tags = {} } = await clients.cloudWatchLogs.send(new ListLogGroupTagsCommand({ resourceArn: arn }));
+
+    return { arn, tags };
+  },
+
+  'AWS::IAM::Role': async function (roleName, clients) {
+    const { Role } = await clients.iam.send(new GetRoleCommand({ RoleName: roleName }));
+
+    return { arn: Role.Arn, tags: toTagMap(Role.Tags) };
+  },
+
+  'AWS::IAM::InstanceProfile': async function (name, clients) {
+    const { InstanceProfile } = await clients.iam.send(new GetInstanceProfileCommand({ InstanceProfileName: name }));
+
+    return { arn: InstanceProfile.Arn, tags: toTagMap(InstanceProfile.Tags) };
+  },
+
+  // The physical ID of a managed policy is its ARN
+  'AWS::IAM::ManagedPolicy': async function (arn, clients) {
+    const { Tags } = await clients.iam.send(new ListPolicyTagsCommand({ PolicyArn: arn }));
+
+    return { arn, tags: toTagMap(Tags) };
+  },
+
+  'AWS::IAM::User': async function (userName, clients) {
+    const { User } = await clients.iam.send(new GetUserCommand({ UserName: userName }));
+
+    return { arn: User.Arn, tags: toTagMap(User.Tags) };
+  },
+};
+
+export const TaggableResourceTypes: string[] = [...Object.keys(Ec2ResourceKinds), ...Object.keys(TagReaders)];
+
+function isUntaggable(type: string): boolean {
+  return UntaggableResourceTypes.includes(type) || type.startsWith('Custom::');
+}
+
+/**
+ * Reads the tags of every taggable resource in a CloudFormation stack. Resource types without
+ * tags, such as policies, routes and subnet associations, are left out, and taggable types
+ * without a reader are returned by findUncheckedResources.
+ */
+export class StackTagReader {
+  readonly #stack: CloudFormationStack;
+
+  readonly #clients: AwsClients;
+
+  constructor(stackName: string, clients: AwsClients = awsClients) {
+    this.#stack = new CloudFormationStack(stackName, clients);
+    this.#clients = clients;
+  }
+
+  async read(): Promise<ITaggedResource[]> {
+    const [resources, stackArn] = await Promise.all([this.#stack.getResources(), this.#stack.getStackId()]);
+    const taggable: IStackResource[] = resources.filter(({ type }) => TaggableResourceTypes.includes(type));
+    const ec2Tags: Record<string, Record<string, string>> = await this.#readEc2Tags(
+      taggable.filter(({ type }) => type in Ec2ResourceKinds).map(({ physicalId }) => physicalId),
+    );
+    const arn: IArn = parseArn(stackArn);
+
+    return Promise.all(
+      taggable.map(async ({ logicalId, physicalId, type }): Promise<ITaggedResource> => {
+        if (type in Ec2ResourceKinds) {
+          return {
+            arn: `arn:${arn.partition}:ec2:${arn.region}:${arn.accountId}:${Ec2ResourceKinds[type]}/${physicalId}`,
+            type,
+            logicalId,
+            tags: ec2Tags[physicalId] ?? {},
+          };
+        }
+
+        return { ...(await TagReaders[type](physicalId, this.#clients, arn)), type, logicalId };
+      }),
+    );
+  }
+
+  /**
+   * Returns the stack resources that can have tags, but whose type no reader covers, so that they
+   * are reported instead of passing unchecked.
+   */
+  async findUncheckedResources(): Promise<IStackResource[]> {
+    const resources: IStackResource[] = await this.#stack.getResources();
+
+    return resources.filter(({ type }) => !TaggableResourceTypes.includes(type) && !isUntaggable(type));
+  }
+
+  async #readEc2Tags(resourceIds: string[]): Promise<Record<string, Record<string, string>>> {
+    const tags: Record<string, Record<string, string>> = {};
+
+    if (!resourceIds.length) return tags;
+
+    for await (const page of paginateDescribeTags(
+      { client: this.#clients.ec2 },
+      { Filters: [{ Name: 'resource-id', Values: resourceIds }] },
+    )) {
+      (page.Tags ?? []).forEach(({ ResourceId, Key, Value }) => {
+        tags[ResourceId] = { ...tags[ResourceId], [Key]: Value };
+      });
+    }
+
+    return tags;
+  }
+}
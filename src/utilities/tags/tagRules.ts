@@ -0,0 +1,114 @@
+import _ from 'lodash';
+import type { IStackResource } from '../aws/CloudFormationStack';
+
+export interface ITaggedResource {
+  arn: string;
+  // CloudFormation resource type, e.g. AWS::EC2::Instance
+  type: string;
+  logicalId: string;
+  tags: Record<string, string>;
+}
+
+export interface ITagRule {
+  key: string;
+  // CloudFormation resource types the rule applies to; every type when omitted
+  resourceTypes?: string[];
+  // Defaults to true; an optional tag is only checked when it is present
+  required?: boolean;
+  allowedValues?: string[];
+  // Regular expression for the value; {stack} is replaced with the stack name
+  pattern?: string;
+}
+
+export interface ITagViolation {
+  // Physical ID instead of the ARN for a resource whose tags were not read
+  arn: string;
+  type: string;
+  key: string;
+  // e.g. 'is missing' or 'is "dev", allowed: qa'
+  problem: string;
+}
+
+// EC2 resources that CDK names after their construct path, e.g. cloudxinfo/PublicInstance/Instance
+const NamedResourceTypes: string[] = [
+  'AWS::EC2::Instance',
+  'AWS::EC2::InternetGateway',
+  'AWS::EC2::NatGateway',
+  'AWS::EC2::RouteTable',
+  'AWS::EC2::Subnet',
+  'AWS::EC2::VPC',
+];
+
+export const DefaultTagRules: ITagRule[] = [
+  { key: 'cloudx', allowedValues: ['qa'] },
+  { key: 'Name', resourceTypes: NamedResourceTypes, pattern: '^{stack}(/[\\w-]+)+$' },
+];
+
+function checkRule(
+  { required = true, allowedValues, pattern }: ITagRule,
+  value: string,
+  stack: string,
+): string | undefined {
+  if (value === undefined) return required ? 'is missing' : undefined;
+
+  if (allowedValues && !allowedValues.includes(value)) return `is "${value}", allowed: ${allowedValues.join(', ')}`;
+
+  if (pattern) {
+    const expression = new RegExp(pattern.replace(/\{stack\}/g, _.escapeRegExp(stack)));
+
+    if (!expression.test(value)) return `is "${value}", which does not match ${String(expression)}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks the tags of every resource against the rules that apply to its type.
+ */
+export function checkTagCompliance(
+  resources: ITaggedResource[],
+  stack: string,
+  rules: ITagRule[] = DefaultTagRules,
+): ITagViolation[] {
+  return resources.flatMap(({ arn, type, tags }) =>
+    rules
+      .filter(({ resourceTypes }) => !resourceTypes || resourceTypes.includes(type))
+      .map((rule) => ({ arn, type, key: rule.key, problem: checkRule(rule, tags[rule.key], stack) }))
+      .filter(({ problem }) => problem !== undefined),
+  );
+}
+
+/**
+ * Reports the resources whose tags could not be read as violations, so that they show up in the
+ * same table instead of passing unchecked.
+ */
+export function toUncheckedViolations(resources: IStackResource[]): ITagViolation[] {
+  return resources.map(({ physicalId, type }) => ({
+    arn: physicalId,
+    type,
+    key: '*',
+    problem: `not checked, no tag reader for ${type}`,
+  }));
+}
+
+/**
+ * Formats the violations as a text table with the rows of each resource ARN together.
+ */
+export function formatTagViolations(violations: ITagViolation[]): string {
+  const header: string[] = ['Resource', 'Tag', 'Violation'];
+  const rows: string[][] = _.sortBy(violations, ['arn', 'key']).map(({ arn, key, problem }, index, sorted) => [
+    index > 0 && sorted[index - 1].arn === arn ? '' : arn,
+    key,
+    problem,
+  ]);
+  const widths: number[] = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const format = (row: string[]): string =>
+    row
+      .map((cell, column) => (column < row.length - 1 ? cell.padEnd(widths[column]) : cell))
+      .join(' | ')
+      .trimEnd();
+
+  return [format(header), widths.map((width) => '-'.repeat(width)).join('-|-'), ...rows.map(format)].join('\n');
+}
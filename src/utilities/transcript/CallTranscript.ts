@@ -0,0 +1,93 @@
+import { redact } from '../logger';
+
+export type CallKind = 'http' | 'aws';
+
+export interface ICallRecord {
+  kind: CallKind;
+  // Host name for HTTP calls, SDK client name for AWS calls, e.g. 'SNSClient'
+  service: string;
+  // 'GET /path' for HTTP calls, the command name for AWS calls, e.g. 'PublishCommand'
+  operation: string;
+  input?: string;
+  output?: string;
+  status?: number;
+  durationMs: number;
+  requestId?: string;
+  error?: string;
+}
+
+// Keeps the report readable when a test polls an API for minutes
+const MAX_RECORDS: number = 200;
+
+const MAX_SUMMARY_LENGTH: number = 500;
+
+function replaceBinary(_key: string, value: unknown): unknown {
+  if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+  if (value && typeof value === 'object' && 'type' in value && value.type === 'Buffer' && 'data' in value) {
+    return `<${(value.data as unknown[]).length} bytes>`;
+  }
+  if (value && typeof value === 'object' && typeof (value as { pipe?: unknown }).pipe === 'function') {
+    return '<stream>';
+  }
+
+  return value;
+}
+
+/**
+ * Reduces a request or response body to a short redacted string; binary data and streams are
+ * replaced with a placeholder.
+ */
+export function summarize(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  let text: string;
+
+  try {
+    text = typeof value === 'string' ? value : JSON.stringify(value, replaceBinary);
+  } catch {
+    text = String(value);
+  }
+
+  const redacted: string = redact(text ?? String(value));
+
+  return redacted.length > MAX_SUMMARY_LENGTH ? `${redacted.slice(0, MAX_SUMMARY_LENGTH)}… (truncated)` : redacted;
+}
+
+/**
+ * Collects the HTTP requests and AWS SDK commands sent during the current test. The root hooks
+ * reset it before each test and attach what it took to the mochawesome report afterwards.
+ */
+export class CallTranscript {
+  #records: ICallRecord[] = [];
+
+  #dropped: number = 0;
+
+  get size(): number {
+    return this.#records.length;
+  }
+
+  get dropped(): number {
+    return this.#dropped;
+  }
+
+  record(call: ICallRecord): void {
+    if (this.#records.length < MAX_RECORDS) this.#records.push(call);
+    else this.#dropped += 1;
+  }
+
+  reset(): void {
+    this.#records = [];
+    this.#dropped = 0;
+  }
+
+  // Returns the recorded calls in the order they finished and starts a new transcript
+  take(): ICallRecord[] {
+    const records: ICallRecord[] = this.#records;
+
+    this.reset();
+
+    return records;
+  }
+}
+
+export const callTranscript: CallTranscript = new CallTranscript();
@@ -0,0 +1,122 @@
+import type { HandlerExecutionContext, InitializeMiddleware, MiddlewareStack } from '@aws-sdk/types';
+import {
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+  type RawAxiosResponseHeaders,
+  isAxiosError,
+} from 'axios';
+import { callTranscript, type CallTranscript, summarize } from './CallTranscript';
+import { redact } from '../logger';
+
+export interface IMiddlewareClient {
+  middlewareStack: Pick<MiddlewareStack<any, any>, 'add'>;
+}
+
+interface IAwsMetadata {
+  httpStatusCode?: number;
+  requestId?: string;
+}
+
+const RequestIdHeaders: string[] = ['x-request-id', 'x-amzn-requestid', 'x-amz-request-id'];
+
+function elapsedSince(startedAt: number): number {
+  return Math.round(performance.now() - startedAt);
+}
+
+function getRequestId(headers: Partial<RawAxiosResponseHeaders> = {}): string | undefined {
+  const name: string = RequestIdHeaders.find((header) => headers[header]);
+
+  return name && String(headers[name]);
+}
+
+function getErrorMessage(error: unknown): string {
+  return redact(error instanceof Error ? `${error.name}: ${error.message}` : String(error));
+}
+
+/**
+ * Records every request sent through the axios instance: method, URL, status, duration, request
+ * ID and a summary of both bodies.
+ */
+export function recordHttpCalls(instance: AxiosInstance, transcript: CallTranscript = callTranscript): void {
+  // axios serializes the body after the request interceptors, so it is summarized up front
+  const pending: WeakMap<InternalAxiosRequestConfig, { startedAt: number; input?: string }> = new WeakMap();
+
+  const record = (config: InternalAxiosRequestConfig, response?: AxiosResponse, error?: unknown): void => {
+    const url: URL = new URL(instance.getUri(config));
+    const { startedAt, input } = pending.get(config) ?? { startedAt: performance.now() };
+
+    transcript.record({
+      kind: 'http',
+      service: url.host,
+      operation: redact(`${config.method?.toUpperCase()} ${url.pathname}${url.search}`),
+      input,
+      output: summarize(response?.data),
+      status: response?.status,
+      durationMs: elapsedSince(startedAt),
+      requestId: getRequestId(response?.headers),
+      error: error && getErrorMessage(error),
+    });
+  };
+
+  instance.interceptors.request.use((config) => {
+    pending.set(config, { startedAt: performance.now(), input: summarize(config.data) });
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      record(response.config, response);
+      return response;
+    },
+    (error) => {
+      if (isAxiosError(error) && error.config) record(error.config, error.response, error);
+      return Promise.reject(error);
+    },
+  );
+}
+
+/**
+ * Adds a middleware to the SDK client that records every command: client, command, input,
+ * HTTP status, duration and request ID. It runs before the retry middleware, so the duration
+ * covers all attempts.
+ */
+export function recordAwsCalls(client: IMiddlewareClient, transcript: CallTranscript = callTranscript): void {
+  const middleware: InitializeMiddleware<any, any> = (next, context: HandlerExecutionContext) => async (args) => {
+    const startedAt: number = performance.now();
+    const call = {
+      kind: 'aws' as const,
+      service: context.clientName ?? 'unknown',
+      operation: context.commandName ?? 'unknown',
+      input: summarize(args.input),
+    };
+
+    try {
+      const result = await next(args);
+      const metadata: IAwsMetadata = result.output?.$metadata ?? {};
+
+      transcript.record({
+        ...call,
+        status: metadata.httpStatusCode,
+        durationMs: elapsedSince(startedAt),
+        requestId: metadata.requestId,
+      });
+
+      return result;
+    } catch (error) {
+      const metadata: IAwsMetadata = (error as { $metadata?: IAwsMetadata }).$metadata ?? {};
+
+      transcript.record({
+        ...call,
+        status: metadata.httpStatusCode,
+        durationMs: elapsedSince(startedAt),
+        requestId: metadata.requestId,
+        error: getErrorMessage(error),
+      });
+
+      throw error;
+    }
+  };
+
+  client.middlewareStack.add(middleware, { step: 'initialize', name: 'callTranscript', override: true });
+}